@@ -12,7 +12,14 @@ const virtualModulePlugin: BunPlugin = {
 };
 
 export default defineConfig({
-  entry: ["src/index.ts", "src/server.ts", "src/cache.ts"],
+  entry: [
+    "src/index.ts",
+    "src/server.ts",
+    "src/cache.ts",
+    "src/integrity.ts",
+    "src/lifecycle.ts",
+    "src/runtime.ts",
+  ],
   target: "bun",
   format: "esm",
   dts: true,
@@ -0,0 +1,166 @@
+import { describe, expect, mock, test } from "bun:test";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  type AccessLogEntry,
+  createAccessLogger,
+  formatCombined,
+  formatJson,
+} from "./access-log.ts";
+
+function testDir() {
+  const dir = join(
+    tmpdir(),
+    `access-log-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  );
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+const ENTRY: AccessLogEntry = {
+  time: new Date("2025-01-02T03:04:05.678Z"),
+  method: "GET",
+  path: "/blog?page=2",
+  status: 200,
+  bytes: 1234,
+  duration: 12.3456,
+  clientAddress: "203.0.113.7",
+  userAgent: 'curl/8.0 "quoted"',
+  referer: undefined,
+  cache: "HIT",
+};
+
+describe("formatCombined", () => {
+  test("writes Combined Log Format plus duration and cache status", () => {
+    expect(formatCombined(ENTRY)).toBe(
+      '203.0.113.7 - - [02/Jan/2025:03:04:05 +0000] "GET /blog?page=2 HTTP/1.1" 200 1234 "-" "curl/8.0 \\"quoted\\"" 12.35 HIT'
+    );
+  });
+
+  test("uses dashes for missing values", () => {
+    const line = formatCombined({
+      ...ENTRY,
+      bytes: undefined,
+      clientAddress: undefined,
+      cache: undefined,
+    });
+    expect(line).toStartWith("- - - [");
+    expect(line).toContain(" 200 - ");
+    expect(line).toEndWith(" 12.35 -");
+  });
+});
+
+describe("formatJson", () => {
+  test("writes one JSON object with nulls for missing values", () => {
+    expect(JSON.parse(formatJson(ENTRY))).toEqual({
+      time: "2025-01-02T03:04:05.678Z",
+      method: "GET",
+      path: "/blog?page=2",
+      status: 200,
+      bytes: 1234,
+      duration: 12.35,
+      clientAddress: "203.0.113.7",
+      userAgent: 'curl/8.0 "quoted"',
+      referer: null,
+      cache: "HIT",
+    });
+  });
+});
+
+describe("createAccessLogger", () => {
+  const adapterLogger = { error: mock((_message: string) => {}) };
+
+  function response() {
+    return new Response("ok", {
+      headers: { "content-length": "2", "x-astro-cache": "STATIC" },
+    });
+  }
+
+  test("appends lines to a file, skipping excluded paths", async () => {
+    const destination = join(testDir(), "access.log");
+    const logger = createAccessLogger(
+      {
+        format: "json",
+        destination,
+        sampleRate: 1,
+        exclude: ["/_health"],
+      },
+      adapterLogger
+    );
+
+    logger.log(
+      new Request("http://localhost/a?b=1", {
+        headers: { "user-agent": "probe" },
+      }),
+      response(),
+      "127.0.0.1",
+      5
+    );
+    logger.log(new Request("http://localhost/_health"), response(), "::1", 1);
+    await logger.close();
+
+    const lines = readFileSync(destination, "utf-8").trim().split("\n");
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      method: "GET",
+      path: "/a?b=1",
+      status: 200,
+      bytes: 2,
+      duration: 5,
+      clientAddress: "127.0.0.1",
+      userAgent: "probe",
+      cache: "STATIC",
+    });
+  });
+
+  test("logs nothing with a zero sample rate", async () => {
+    const destination = join(testDir(), "access.log");
+    const logger = createAccessLogger(
+      {
+        format: "combined",
+        destination,
+        sampleRate: 0,
+        exclude: [],
+      },
+      adapterLogger
+    );
+
+    logger.log(new Request("http://localhost/"), response(), undefined, 1);
+    await logger.close();
+
+    expect(readFileSync(destination, "utf-8")).toBe("");
+  });
+
+  test("creates missing directories", async () => {
+    const destination = join(testDir(), "logs", "access.log");
+    const logger = createAccessLogger(
+      { format: "combined", destination, sampleRate: 1, exclude: [] },
+      adapterLogger
+    );
+    logger.log(new Request("http://localhost/"), response(), undefined, 1);
+    await logger.close();
+
+    expect(readFileSync(destination, "utf-8")).toContain('"GET / HTTP/1.1"');
+  });
+
+  test("reports a destination that can't be written", async () => {
+    const file = join(testDir(), "not-a-directory");
+    writeFileSync(file, "");
+    const failed = Promise.withResolvers<string>();
+    const logger = createAccessLogger(
+      {
+        format: "combined",
+        destination: join(file, "access.log"),
+        sampleRate: 1,
+        exclude: ["/*"],
+      },
+      { error: failed.resolve }
+    );
+
+    expect(await failed.promise).toContain("logging to stdout");
+    // Excluded, so nothing reaches stdout; the server keeps running.
+    logger.log(new Request("http://localhost/"), response(), undefined, 1);
+    await logger.close();
+  });
+});
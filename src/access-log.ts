@@ -0,0 +1,172 @@
+import { createWriteStream, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { CACHE_HEADER } from "./constants.ts";
+import { compileGlob } from "./glob.ts";
+import type { AccessLogOptions } from "./types.ts";
+
+/** One served request, as recorded in the access log. */
+export interface AccessLogEntry {
+  /** When the request was received. */
+  time: Date;
+  method: string;
+  /** Request path including the query string. */
+  path: string;
+  status: number;
+  /** Response `Content-Length`, or `undefined` for streamed bodies. */
+  bytes: number | undefined;
+  /** Milliseconds until the handler returned the response. */
+  duration: number;
+  clientAddress: string | undefined;
+  userAgent: string | undefined;
+  referer: string | undefined;
+  /** `x-astro-cache` status (STATIC, HIT, STALE, MISS, BYPASS). */
+  cache: string | undefined;
+}
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/** Format a date as `10/Oct/2000:13:55:36 +0000` (always UTC). */
+function formatClfTime(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(date.getUTCDate())}/${MONTHS[date.getUTCMonth()]}/${date.getUTCFullYear()}:${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+}
+
+/** Quote a header value for CLF, escaping quotes and backslashes. */
+function quote(value: string | undefined): string {
+  return value === undefined ? '"-"' : `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/**
+ * Format an entry in Combined Log Format, followed by the duration in
+ * milliseconds and the cache status:
+ *
+ * ```
+ * 127.0.0.1 - - [10/Oct/2000:13:55:36 +0000] "GET /a HTTP/1.1" 200 2326 "-" "curl/8.0" 1.42 STATIC
+ * ```
+ */
+export function formatCombined(entry: AccessLogEntry): string {
+  const request = quote(`${entry.method} ${entry.path} HTTP/1.1`);
+  return [
+    entry.clientAddress ?? "-",
+    "-",
+    "-",
+    `[${formatClfTime(entry.time)}]`,
+    request,
+    entry.status,
+    entry.bytes ?? "-",
+    quote(entry.referer),
+    quote(entry.userAgent),
+    entry.duration.toFixed(2),
+    entry.cache ?? "-",
+  ].join(" ");
+}
+
+/** Format an entry as a single JSON object (one line). */
+export function formatJson(entry: AccessLogEntry): string {
+  return JSON.stringify({
+    time: entry.time.toISOString(),
+    method: entry.method,
+    path: entry.path,
+    status: entry.status,
+    bytes: entry.bytes ?? null,
+    duration: Math.round(entry.duration * 100) / 100,
+    clientAddress: entry.clientAddress ?? null,
+    userAgent: entry.userAgent ?? null,
+    referer: entry.referer ?? null,
+    cache: entry.cache ?? null,
+  });
+}
+
+/** Writes access log lines for served requests. */
+export interface AccessLogger {
+  /** Record a served request, subject to exclusions and sampling. */
+  log(
+    request: Request,
+    response: Response,
+    clientAddress: string | undefined,
+    duration: number
+  ): void;
+  /** Flush and close the log file (no-op for stdout). */
+  close(): Promise<void>;
+}
+
+/** Reports access log file errors (Astro's adapter logger). */
+interface AccessLogErrorLogger {
+  error(message: string): void;
+}
+
+/**
+ * Create an access logger writing Combined Log Format or JSON lines to
+ * stdout or a file (opened for appending, creating missing directories).
+ * If the file can't be opened or written, the error is logged and lines go
+ * to stdout instead.
+ */
+export function createAccessLogger(
+  options: AccessLogOptions,
+  logger: AccessLogErrorLogger
+): AccessLogger {
+  const format = options.format === "json" ? formatJson : formatCombined;
+  const exclude = options.exclude.map(compileGlob);
+  let stream: ReturnType<typeof createWriteStream> | undefined;
+  if (options.destination !== "stdout") {
+    const { destination } = options;
+    try {
+      mkdirSync(dirname(destination), { recursive: true });
+    } catch {
+      // Opening the file fails too, and is reported below.
+    }
+    stream = createWriteStream(destination, { flags: "a" });
+    stream.on("error", (err) => {
+      logger.error(
+        `Access log "${destination}" failed, logging to stdout: ${err.message}`
+      );
+      stream = undefined;
+    });
+  }
+  const write = (line: string) => {
+    if (stream) stream.write(line);
+    else process.stdout.write(line);
+  };
+
+  return {
+    log(request, response, clientAddress, duration) {
+      const url = new URL(request.url);
+      if (exclude.some((pattern) => pattern.test(url.pathname))) return;
+      if (options.sampleRate < 1 && Math.random() >= options.sampleRate) return;
+
+      const length = response.headers.get("content-length");
+      const entry: AccessLogEntry = {
+        time: new Date(Date.now() - duration),
+        method: request.method,
+        path: `${url.pathname}${url.search}`,
+        status: response.status,
+        bytes: length === null ? undefined : Number(length),
+        duration,
+        clientAddress,
+        userAgent: request.headers.get("user-agent") ?? undefined,
+        referer: request.headers.get("referer") ?? undefined,
+        cache: response.headers.get(CACHE_HEADER) ?? undefined,
+      };
+      write(`${format(entry)}\n`);
+    },
+    close() {
+      return new Promise((resolve) => {
+        if (!stream) return resolve();
+        stream.end(resolve);
+      });
+    },
+  };
+}
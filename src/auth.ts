@@ -0,0 +1,16 @@
+import { timingSafeEqual } from "node:crypto";
+
+/**
+ * Compare a client-provided secret against the expected one in constant
+ * time. Always `false` without an expected secret, so a missing secret
+ * fails closed.
+ */
+export function tokensMatch(
+  provided: string | null,
+  expected: string | undefined
+): boolean {
+  if (!expected || provided === null) return false;
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.byteLength === b.byteLength && timingSafeEqual(a, b);
+}
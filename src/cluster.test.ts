@@ -0,0 +1,160 @@
+import { describe, expect, test } from "bun:test";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { availableParallelism, tmpdir } from "node:os";
+import { join } from "node:path";
+import { getWorkerId, resolveWorkerCount, WORKER_ID_ENV } from "./cluster.ts";
+
+function testDir() {
+  const dir = join(
+    tmpdir(),
+    `cluster-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  );
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+const CLUSTER_MODULE = join(import.meta.dir, "cluster.ts");
+
+/**
+ * Write a primary script running `runPrimary` over `worker` (script source)
+ * and start it, with the primary's and workers' output piped together.
+ */
+function startPrimary(dir: string, worker: string, workers: number) {
+  writeFileSync(join(dir, "worker.ts"), worker);
+  writeFileSync(
+    join(dir, "primary.ts"),
+    `import { runPrimary } from ${JSON.stringify(CLUSTER_MODULE)};
+runPrimary({
+  command: [process.execPath, ${JSON.stringify(join(dir, "worker.ts"))}],
+  workers: ${workers},
+  logger: { info: console.log, error: console.log },
+  restartDelay: 10,
+});
+`
+  );
+  const primary = Bun.spawn([process.execPath, join(dir, "primary.ts")], {
+    stdout: "pipe",
+  });
+  const reader = primary.stdout.getReader();
+  const decoder = new TextDecoder();
+  let output = "";
+  /** Read until the combined output contains `text`. */
+  const waitFor = async (text: string) => {
+    while (!output.includes(text)) {
+      const { done, value } = await reader.read();
+      if (done) throw new Error(`Exited before "${text}":\n${output}`);
+      output += decoder.decode(value);
+    }
+    return output;
+  };
+  return { primary, waitFor };
+}
+
+describe("resolveWorkerCount", () => {
+  test("uses the configured count", () => {
+    expect(resolveWorkerCount(1, {})).toBe(1);
+    expect(resolveWorkerCount(4, {})).toBe(4);
+  });
+
+  test("WORKERS overrides the config", () => {
+    expect(resolveWorkerCount(1, { WORKERS: "3" })).toBe(3);
+  });
+
+  test('"auto" uses one worker per CPU', () => {
+    expect(resolveWorkerCount("auto", {})).toBe(availableParallelism());
+    expect(resolveWorkerCount(1, { WORKERS: "auto" })).toBe(
+      availableParallelism()
+    );
+  });
+
+  test("rejects invalid counts", () => {
+    expect(() => resolveWorkerCount(1, { WORKERS: "many" })).toThrow(
+      "Invalid worker count"
+    );
+    expect(() => resolveWorkerCount(0, {})).toThrow("Invalid worker count");
+    expect(() => resolveWorkerCount(1, { WORKERS: "1.5" })).toThrow(
+      "Invalid worker count"
+    );
+  });
+});
+
+describe("getWorkerId", () => {
+  test("is undefined outside cluster mode", () => {
+    expect(getWorkerId({})).toBeUndefined();
+  });
+
+  test("reads the worker index from the environment", () => {
+    expect(getWorkerId({ [WORKER_ID_ENV]: "2" })).toBe(2);
+  });
+});
+
+describe("runPrimary", () => {
+  test("restarts crashed workers, relays expirations, and forwards signals", async () => {
+    const dir = testDir();
+    const { primary, waitFor } = startPrimary(
+      dir,
+      `import { existsSync, writeFileSync } from "node:fs";
+import { connectWorkerCache } from ${JSON.stringify(CLUSTER_MODULE)};
+const id = process.env.${WORKER_ID_ENV};
+const crashed = ${JSON.stringify(join(dir, "crashed"))};
+if (id === "1" && !existsSync(crashed)) {
+  writeFileSync(crashed, "");
+  process.exit(3);
+}
+const cache = connectWorkerCache(
+  {
+    async expire(pathname) { console.log(\`worker \${id} expire \${pathname}\`); },
+    async expireAll() { console.log(\`worker \${id} expireAll\`); },
+  },
+  console
+);
+process.on("SIGTERM", () => {
+  console.log(\`worker \${id} stopping\`);
+  process.exit(0);
+});
+const trigger = ${JSON.stringify(join(dir, "expire"))};
+const poll = setInterval(async () => {
+  if (id !== "0" || !existsSync(trigger)) return;
+  clearInterval(poll);
+  await cache.expire("/a");
+  await cache.expireAll();
+}, 10);
+console.log(\`worker \${id} ready\`);
+`,
+      2
+    );
+    try {
+      await waitFor("Worker 1 exited (code 3), restarting in 10ms");
+      await waitFor("worker 0 ready");
+      await waitFor("worker 1 ready");
+
+      writeFileSync(join(dir, "expire"), "");
+      await waitFor("worker 1 expire /a");
+      const output = await waitFor("worker 1 expireAll");
+      expect(output).toContain("worker 0 expire /a");
+      expect(output).toContain("worker 0 expireAll");
+
+      primary.kill("SIGTERM");
+      await waitFor("worker 0 stopping");
+      await waitFor("worker 1 stopping");
+      expect(await primary.exited).toBe(0);
+    } finally {
+      // No-op once exited; otherwise the primary stops its workers.
+      primary.kill("SIGTERM");
+    }
+  });
+
+  test("stops when a worker keeps crashing on startup", async () => {
+    const dir = testDir();
+    const { primary, waitFor } = startPrimary(dir, "process.exit(1);", 1);
+    try {
+      const output = await waitFor("stopping the cluster");
+      expect(output).toContain("restarting in 80ms");
+      expect(output).toContain("5 times in a row");
+      expect(await primary.exited).toBe(1);
+    } finally {
+      // No-op once exited; otherwise the primary stops its workers.
+      primary.kill("SIGTERM");
+    }
+  });
+});
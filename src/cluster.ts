@@ -0,0 +1,182 @@
+import { availableParallelism } from "node:os";
+import type { Subprocess } from "bun";
+import debug from "debug";
+import type { ISRCache } from "./types.ts";
+
+const log = debug("@wyattjoh/astro-bun-adapter:cluster");
+
+/**
+ * Delay before restarting a crashed worker, doubled for each consecutive
+ * early crash (up to {@link MAX_RESTART_DELAY_MS}) so a crash loop can't spin.
+ */
+const RESTART_DELAY_MS = 1000;
+const MAX_RESTART_DELAY_MS = 30_000;
+/** A worker that ran at least this long resets its restart backoff. */
+const STABLE_UPTIME_MS = 10_000;
+/**
+ * Consecutive early crashes of one worker after which the primary gives up,
+ * e.g. when every start fails on a bad TLS path or a port in use.
+ */
+const MAX_EARLY_CRASHES = 5;
+
+/** Environment variable carrying a worker's index (`0`..`N-1`). */
+export const WORKER_ID_ENV = "ASTRO_BUN_WORKER_ID";
+
+/** ISR expiration relayed between workers through the primary. */
+export type ClusterMessage =
+  | { type: "isr:expire"; pathname: string }
+  | { type: "isr:expireAll" };
+
+/** Logger used by the primary process (Astro's adapter logger). */
+interface ClusterLogger {
+  info(message: string): void;
+  error(message: string): void;
+}
+
+/**
+ * Wrap a worker's ISR cache so expirations apply locally and are relayed to
+ * the other workers through the primary, and apply the expirations the
+ * primary relays from them.
+ */
+export function connectWorkerCache(
+  cache: ISRCache,
+  logger: ClusterLogger
+): ISRCache {
+  const relay = (message: ClusterMessage) => process.send?.(message);
+  process.on("message", (message: ClusterMessage) => {
+    const applied =
+      message.type === "isr:expire"
+        ? cache.expire(message.pathname)
+        : cache.expireAll();
+    applied.catch((err: unknown) => {
+      logger.error(`Failed to apply relayed ISR expiration: ${err}`);
+    });
+  });
+  return {
+    async expire(pathname) {
+      await cache.expire(pathname);
+      relay({ type: "isr:expire", pathname });
+    },
+    async expireAll() {
+      await cache.expireAll();
+      relay({ type: "isr:expireAll" });
+    },
+  };
+}
+
+/**
+ * Resolve the number of worker processes. `WORKERS` overrides the config;
+ * `"auto"` uses one worker per available CPU. Anything below 2 disables
+ * cluster mode.
+ */
+export function resolveWorkerCount(
+  config: number | "auto",
+  env: Record<string, string | undefined>
+): number {
+  const value = env.WORKERS || config;
+  if (value === "auto") return availableParallelism();
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(
+      `Invalid worker count "${value}": expected a positive integer or "auto"`
+    );
+  }
+  return count;
+}
+
+/** The worker index of this process, or `undefined` outside cluster mode. */
+export function getWorkerId(
+  env: Record<string, string | undefined>
+): number | undefined {
+  const id = env[WORKER_ID_ENV];
+  return id === undefined ? undefined : Number(id);
+}
+
+/**
+ * Run the cluster primary: spawn `workers` copies of `command` (the current
+ * entrypoint) that share the port via `reusePort`, restart any that crash,
+ * relay ISR expirations between them, and forward SIGTERM/SIGINT. Never
+ * resolves -- the primary exits once every worker has stopped after a
+ * signal, or with code 1 when a worker keeps crashing right after starting.
+ */
+export function runPrimary(options: {
+  command: string[];
+  workers: number;
+  logger: ClusterLogger;
+  /** Initial restart delay in milliseconds (default `1000`). */
+  restartDelay?: number;
+}): Promise<never> {
+  const { command, workers, logger } = options;
+  const restartDelay = options.restartDelay ?? RESTART_DELAY_MS;
+  const children = new Map<number, Subprocess>();
+  /** Consecutive early crashes per worker. */
+  const earlyCrashes = new Map<number, number>();
+  let shuttingDown = false;
+  let exitCode = 0;
+
+  const stopAll = (signal: NodeJS.Signals) => {
+    shuttingDown = true;
+    log(`Forwarding ${signal} to ${children.size} workers`);
+    if (children.size === 0) process.exit(exitCode);
+    for (const child of children.values()) child.kill(signal);
+  };
+
+  const spawn = (id: number) => {
+    const startedAt = Date.now();
+    const child = Bun.spawn({
+      cmd: command,
+      env: { ...process.env, [WORKER_ID_ENV]: String(id) },
+      stdio: ["inherit", "inherit", "inherit"],
+      ipc(message: ClusterMessage) {
+        // Relay to every other worker; the sender already applied it.
+        for (const [otherId, other] of children) {
+          if (otherId !== id) other.send(message);
+        }
+      },
+      onExit(_subprocess, code, signalCode) {
+        children.delete(id);
+        if (shuttingDown) {
+          if (children.size === 0) process.exit(exitCode);
+          return;
+        }
+        const reason = signalCode ?? `code ${code}`;
+        const crashes =
+          Date.now() - startedAt < STABLE_UPTIME_MS
+            ? (earlyCrashes.get(id) ?? 0) + 1
+            : 0;
+        earlyCrashes.set(id, crashes);
+        if (crashes >= MAX_EARLY_CRASHES) {
+          logger.error(
+            `Worker ${id} exited (${reason}) ${crashes} times in a row right after starting, stopping the cluster`
+          );
+          exitCode = 1;
+          stopAll("SIGTERM");
+          return;
+        }
+        const delay = Math.min(
+          restartDelay * 2 ** Math.max(0, crashes - 1),
+          MAX_RESTART_DELAY_MS
+        );
+        logger.error(
+          `Worker ${id} exited (${reason}), restarting in ${delay}ms`
+        );
+        setTimeout(() => {
+          if (!shuttingDown) spawn(id);
+        }, delay);
+      },
+    });
+    children.set(id, child);
+    log(`Spawned worker ${id} (pid ${child.pid})`);
+  };
+
+  for (let id = 0; id < workers; id++) spawn(id);
+  logger.info(`Cluster primary started ${workers} workers`);
+
+  const forward = (signal: NodeJS.Signals) => {
+    if (!shuttingDown) stopAll(signal);
+  };
+  process.on("SIGTERM", () => forward("SIGTERM"));
+  process.on("SIGINT", () => forward("SIGINT"));
+
+  return new Promise<never>(() => {});
+}
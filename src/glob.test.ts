@@ -0,0 +1,30 @@
+import { describe, expect, test } from "bun:test";
+import { compileGlob } from "./glob.ts";
+
+describe("compileGlob", () => {
+  test("matches literal paths exactly", () => {
+    const glob = compileGlob("/robots.txt");
+    expect(glob.test("/robots.txt")).toBe(true);
+    expect(glob.test("/robots.txt.bak")).toBe(false);
+    expect(glob.test("/robotsXtxt")).toBe(false);
+  });
+
+  test("* matches across segments", () => {
+    const glob = compileGlob("/fonts/*.woff2");
+    expect(glob.test("/fonts/inter.woff2")).toBe(true);
+    expect(glob.test("/fonts/inter/latin.woff2")).toBe(true);
+    expect(glob.test("/fonts/inter.woff")).toBe(false);
+  });
+
+  test(":name matches a single segment", () => {
+    const glob = compileGlob("/blog/:slug/index.html");
+    expect(glob.test("/blog/hello/index.html")).toBe(true);
+    expect(glob.test("/blog/a/b/index.html")).toBe(false);
+  });
+
+  test("escapes regex metacharacters", () => {
+    const glob = compileGlob("/.well-known/(test)+");
+    expect(glob.test("/.well-known/(test)+")).toBe(true);
+    expect(glob.test("/xwell-known/test")).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+/** Escape regular-expression metacharacters in a literal string. */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compile a path pattern to an anchored regular expression. `*` matches any
+ * run of characters (including `/`) and `:name` matches a single path
+ * segment, following Netlify's `_headers` / `_redirects` conventions.
+ *
+ * @example
+ * compileGlob("/fonts/*.woff2").test("/fonts/inter/latin.woff2"); // true
+ * compileGlob("/blog/:slug").test("/blog/hello"); // true
+ */
+export function compileGlob(pattern: string): RegExp {
+  let source = "";
+  for (const part of pattern.split(/(\*|:[A-Za-z_][\w-]*)/)) {
+    if (part === "*") {
+      source += ".*";
+    } else if (part.startsWith(":")) {
+      source += "[^/]+";
+    } else {
+      source += escapeRegExp(part);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
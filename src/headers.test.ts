@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import {
+  applyHeaderRules,
+  compileHeaderRules,
+  parseHeadersFile,
+} from "./headers.ts";
+
+describe("parseHeadersFile", () => {
+  test("parses path blocks with indented headers", () => {
+    const rules = parseHeadersFile(
+      [
+        "# Fonts are fingerprinted",
+        "/fonts/*",
+        "  Cache-Control: public, max-age=31536000, immutable",
+        "  Access-Control-Allow-Origin: *",
+        "",
+        "/.well-known/*",
+        "\tContent-Type: application/json",
+      ].join("\n")
+    );
+
+    expect(rules).toEqual([
+      {
+        pattern: "/fonts/*",
+        headers: {
+          "cache-control": "public, max-age=31536000, immutable",
+          "access-control-allow-origin": "*",
+        },
+      },
+      {
+        pattern: "/.well-known/*",
+        headers: { "content-type": "application/json" },
+      },
+    ]);
+  });
+
+  test("joins repeated header names", () => {
+    const rules = parseHeadersFile(
+      "/*\n  Link: </a.css>; rel=preload\n  Link: </b.js>; rel=preload"
+    );
+    expect(rules[0].headers.link).toBe(
+      "</a.css>; rel=preload, </b.js>; rel=preload"
+    );
+  });
+
+  test("ignores headers before the first path and malformed lines", () => {
+    const rules = parseHeadersFile(
+      "  X-Orphan: yes\r\n/page\r\n  not a header\r\n  X-Ok: 1"
+    );
+    expect(rules).toEqual([{ pattern: "/page", headers: { "x-ok": "1" } }]);
+  });
+});
+
+describe("applyHeaderRules", () => {
+  test("applies matching rules in order so later rules win", () => {
+    const rules = compileHeaderRules([
+      { pattern: "/*", headers: { "X-Frame-Options": "DENY" } },
+      { pattern: "/embed/*", headers: { "X-Frame-Options": "SAMEORIGIN" } },
+    ]);
+
+    const embed = new Headers();
+    applyHeaderRules(embed, rules, ["/embed/widget.html"]);
+    expect(embed.get("x-frame-options")).toBe("SAMEORIGIN");
+
+    const other = new Headers();
+    applyHeaderRules(other, rules, ["/index.html"]);
+    expect(other.get("x-frame-options")).toBe("DENY");
+  });
+
+  test("matches any of the given paths", () => {
+    const rules = compileHeaderRules([
+      { pattern: "/about", headers: { "X-Page": "about" } },
+    ]);
+    const h = new Headers();
+    applyHeaderRules(h, rules, ["/about/index.html", "/about"]);
+    expect(h.get("x-page")).toBe("about");
+  });
+});
@@ -0,0 +1,77 @@
+import { compileGlob } from "./glob.ts";
+
+/** A set of headers applied to every static path matching `pattern`. */
+export interface HeaderRule {
+  /** Path pattern (see {@link compileGlob}), e.g. `/fonts/*.woff2`. */
+  pattern: string;
+  headers: Record<string, string>;
+}
+
+/** A header rule with its pattern compiled for matching. */
+export interface CompiledHeaderRule {
+  matcher: RegExp;
+  headers: Record<string, string>;
+}
+
+/**
+ * Parse a Netlify-style `_headers` file. Unindented lines start a path
+ * pattern; indented `Name: value` lines below it add headers. Lines starting
+ * with `#` are comments. Repeated names within a block are joined with `, `.
+ *
+ * @example
+ * ```
+ * /fonts/*
+ *   Cache-Control: public, max-age=31536000, immutable
+ *   Access-Control-Allow-Origin: *
+ * ```
+ */
+export function parseHeadersFile(content: string): HeaderRule[] {
+  const rules: HeaderRule[] = [];
+  let current: HeaderRule | undefined;
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+
+    if (!/^\s/.test(line)) {
+      current = { pattern: trimmed, headers: {} };
+      rules.push(current);
+      continue;
+    }
+
+    const separator = trimmed.indexOf(":");
+    if (!current || separator <= 0) continue;
+
+    const name = trimmed.slice(0, separator).trim().toLowerCase();
+    const value = trimmed.slice(separator + 1).trim();
+    const existing = current.headers[name];
+    current.headers[name] = existing ? `${existing}, ${value}` : value;
+  }
+
+  return rules;
+}
+
+/** Compile header rules once so each file only pays for the regex tests. */
+export function compileHeaderRules(rules: HeaderRule[]): CompiledHeaderRule[] {
+  return rules.map(({ pattern, headers }) => ({
+    matcher: compileGlob(pattern),
+    headers,
+  }));
+}
+
+/**
+ * Apply every rule matching any of `paths` (e.g. a file path and its page
+ * route) to `target`, in order, so later rules override earlier ones.
+ */
+export function applyHeaderRules(
+  target: Headers,
+  rules: CompiledHeaderRule[],
+  paths: string[]
+): void {
+  for (const { matcher, headers } of rules) {
+    if (!paths.some((path) => matcher.test(path))) continue;
+    for (const [key, value] of Object.entries(headers)) {
+      target.set(key, value);
+    }
+  }
+}
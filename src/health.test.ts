@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+import { createHealthHandler, type ReadinessChecks } from "./health.ts";
+
+function handler(checks: Partial<ReadinessChecks> = {}) {
+  return createHealthHandler({
+    livenessPath: "/_health",
+    readinessPath: "/_ready",
+    checks: () => ({
+      isrCache: true,
+      draining: false,
+      ...checks,
+    }),
+  });
+}
+
+describe("createHealthHandler", () => {
+  test("ignores other paths and methods", () => {
+    const match = handler();
+    expect(match("/", "GET")).toBeUndefined();
+    expect(match("/_health/", "GET")).toBeUndefined();
+    expect(match("/_health", "POST")).toBeUndefined();
+  });
+
+  test("answers liveness with 200", async () => {
+    const res = handler({ draining: true })("/_health", "GET");
+    expect(res?.status).toBe(200);
+    expect(res?.headers.get("cache-control")).toBe("no-store");
+    expect(await res?.json()).toEqual({ status: "ok" });
+  });
+
+  test("answers readiness with 200 when every check passes", async () => {
+    const res = handler()("/_ready", "HEAD");
+    expect(res?.status).toBe(200);
+    expect(await res?.json()).toEqual({
+      status: "ready",
+      checks: { isrCache: true, draining: false },
+    });
+  });
+
+  test("reports not-ready while the ISR cache loads", async () => {
+    const res = handler({ isrCache: false })("/_ready", "GET");
+    expect(res?.status).toBe(503);
+    expect(await res?.json()).toMatchObject({ status: "not-ready" });
+  });
+
+  test("reports not-ready while draining", () => {
+    expect(handler({ draining: true })("/_ready", "GET")?.status).toBe(503);
+  });
+});
@@ -0,0 +1,51 @@
+/** Individual readiness conditions reported by the readiness endpoint. */
+export interface ReadinessChecks {
+  /** The ISR cache has restored its disk index (always `true` without ISR). */
+  isrCache: boolean;
+  /** A graceful shutdown is in progress. */
+  draining: boolean;
+}
+
+/** Options for {@link createHealthHandler}. */
+interface HealthHandlerOptions {
+  livenessPath: string;
+  readinessPath: string;
+  /** Evaluated on every readiness request. */
+  checks: () => ReadinessChecks;
+}
+
+/**
+ * Build a handler for the liveness and readiness probe paths. Returns a
+ * function that yields a probe `Response` for GET/HEAD requests to either
+ * path, or `undefined` so the request continues to the static/SSR lookup.
+ *
+ * Liveness always answers `200` while the process can serve requests.
+ * Readiness answers `200` once the ISR cache is loaded and `503` before
+ * that or while draining, with the individual checks in
+ * the JSON body.
+ */
+export function createHealthHandler(
+  options: HealthHandlerOptions
+): (pathname: string, method: string) => Response | undefined {
+  const { livenessPath, readinessPath, checks } = options;
+  const headers = { "Cache-Control": "no-store" };
+
+  return (pathname, method) => {
+    if (method !== "GET" && method !== "HEAD") return undefined;
+
+    if (pathname === livenessPath) {
+      return Response.json({ status: "ok" }, { headers });
+    }
+
+    if (pathname === readinessPath) {
+      const result = checks();
+      const ready = result.isrCache && !result.draining;
+      return Response.json(
+        { status: ready ? "ready" : "not-ready", checks: result },
+        { status: ready ? 200 : 503, headers }
+      );
+    }
+
+    return undefined;
+  };
+}
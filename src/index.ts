@@ -8,10 +8,22 @@ import type {
   AstroIntegration,
   RouteToHeaders,
 } from "astro";
-import { generateStaticManifest } from "./manifest.ts";
+import { generateStaticManifest, isZstdSupported } from "./manifest.ts";
+import { serializeRedirects } from "./redirects.ts";
+import type { ContentEncoding } from "./types.ts";
 import { createConfigPlugin } from "./vite-plugin-config.ts";
 
-export type { AdapterOptions } from "./types.ts";
+export type {
+  AdapterLocals,
+  AdapterOptions,
+  AdapterWebSocket,
+  RuntimeLocals,
+  TraceContext,
+  UpgradeWebSocketOptions,
+  WebSocketData,
+  WebSocketHandlers,
+  WebSocketLocals,
+} from "./types.ts";
 
 /** Build the Astro adapter descriptor with supported features. */
 function getAdapter(): AstroAdapter {
@@ -64,11 +76,238 @@ export interface ISRConfig {
   preFillMemoryCache?: boolean;
 }
 
+/**
+ * Build-time precompression of static assets. Each enabled coding emits a
+ * sibling file (`.br`, `.zst`, `.gz`) for compressible content types.
+ */
+export interface PrecompressConfig {
+  /**
+   * Emit Brotli (`.br`) variants.
+   *
+   * @default true
+   */
+  brotli?: boolean;
+
+  /**
+   * Emit gzip (`.gz`) variants.
+   *
+   * @default true
+   */
+  gzip?: boolean;
+
+  /**
+   * Emit Zstandard (`.zst`) variants. Requires the build to run on a Node
+   * release with zstd support (22.15+); silently skipped otherwise.
+   *
+   * @default false
+   */
+  zstd?: boolean;
+}
+
+/** Resolve the `precompress` option into the list of codings to emit. */
+function resolvePrecompress(
+  option: boolean | PrecompressConfig | undefined
+): ContentEncoding[] {
+  if (!option) return [];
+  const config = option === true ? {} : option;
+  const encodings: ContentEncoding[] = [];
+  if (config.brotli ?? true) encodings.push("br");
+  if ((config.zstd ?? false) && isZstdSupported()) encodings.push("zstd");
+  if (config.gzip ?? true) encodings.push("gzip");
+  return encodings;
+}
+
+/**
+ * User-facing in-memory static file cache options. All properties are
+ * optional — omitted values use their documented defaults.
+ */
+export interface StaticMemoryCacheConfig {
+  /**
+   * Total byte budget for cached file contents. Files are admitted until the
+   * budget is spent; nothing is evicted.
+   *
+   * @default 16 * 1024 * 1024 // (16 MB)
+   */
+  maxByteSize?: number;
+
+  /**
+   * Largest file (in bytes) eligible for caching. Bigger files always stream
+   * from disk.
+   *
+   * @default 64 * 1024 // (64 KB)
+   */
+  maxFileSize?: number;
+
+  /**
+   * Load eligible files at startup instead of on first request.
+   *
+   * @default false
+   */
+  preload?: boolean;
+}
+
+/** User-facing native static route options. */
+export interface NativeStaticRoutesConfig {
+  /**
+   * Largest file (in bytes) registered as a native route. Every registered
+   * file is held in memory for the lifetime of the process.
+   *
+   * @default 1024 * 1024 // (1 MB)
+   */
+  maxFileSize?: number;
+}
+
+/** User-facing source map gate options. */
+export interface SourceMapGateConfig {
+  /**
+   * Request header that must carry the token.
+   *
+   * @default "x-sourcemap-token"
+   */
+  header?: string;
+  /**
+   * Token the header must match. The `SOURCEMAP_TOKEN` environment variable
+   * overrides it at runtime, which keeps the secret out of the build output.
+   * Source maps are denied to everyone when neither is set.
+   */
+  token?: string;
+}
+
+/** Access log options. */
+export interface AccessLogConfig {
+  /**
+   * `"combined"` writes Combined Log Format lines followed by the duration
+   * (ms) and cache status; `"json"` writes one JSON object per line.
+   *
+   * @default "combined"
+   */
+  format?: "combined" | "json";
+  /**
+   * `"stdout"`, or a file path (relative to the working directory) that
+   * lines are appended to.
+   *
+   * @default "stdout"
+   */
+  destination?: string;
+  /**
+   * Fraction of requests to log, from `0` to `1`.
+   *
+   * @default 1
+   */
+  sampleRate?: number;
+  /**
+   * Path patterns that are never logged, e.g. health probes. `*` matches any
+   * run of characters (including `/`) and `:name` matches one path segment.
+   */
+  exclude?: string[];
+}
+
+/** Health probe options. */
+export interface HealthConfig {
+  /**
+   * Path of the liveness probe. Matched exactly against the request path,
+   * without `base`.
+   *
+   * @default "/_health"
+   */
+  livenessPath?: string;
+  /**
+   * Path of the readiness probe. Matched exactly against the request path,
+   * without `base`.
+   *
+   * @default "/_ready"
+   */
+  readinessPath?: string;
+}
+
+/** Metrics endpoint options. */
+export interface MetricsConfig {
+  /**
+   * Path of the metrics endpoint. Matched exactly against the request path,
+   * without `base`.
+   *
+   * @default "/metrics"
+   */
+  path?: string;
+  /**
+   * Serve metrics from a separate listener on this port (on the same host)
+   * instead of the main server. The `METRICS_PORT` environment variable
+   * overrides it at runtime. Required in cluster mode, where worker `N`
+   * listens on `port + N`.
+   */
+  port?: number;
+  /**
+   * Require `Authorization: Bearer <token>` to scrape. The `METRICS_TOKEN`
+   * environment variable overrides it at runtime, which keeps the secret out
+   * of the build output.
+   */
+  token?: string;
+}
+
+/** Tracing options. */
+export interface TracingConfig {
+  /**
+   * OTLP/HTTP traces URL. `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT` (full URL) or
+   * `OTEL_EXPORTER_OTLP_ENDPOINT` (base URL) override it at runtime.
+   *
+   * @default "http://localhost:4318/v1/traces"
+   */
+  endpoint?: string;
+  /**
+   * Extra headers sent with every export request, e.g. for collector
+   * authentication. `OTEL_EXPORTER_OTLP_HEADERS` is merged over them.
+   */
+  headers?: Record<string, string>;
+  /**
+   * `service.name` resource attribute. `OTEL_SERVICE_NAME` overrides it.
+   *
+   * @default "astro"
+   */
+  serviceName?: string;
+  /**
+   * Fraction of new traces to sample, from `0` to `1`. Requests with an
+   * incoming `traceparent` follow its sampled flag instead.
+   *
+   * @default 1
+   */
+  sampleRate?: number;
+}
+
+/** Unix domain socket options. */
+export interface UnixSocketConfig {
+  /** Filesystem path of the socket. */
+  path: string;
+  /**
+   * File mode applied to the socket after binding, e.g. `0o660` to let a
+   * reverse proxy in the same group connect.
+   */
+  permissions?: number;
+}
+
+/** A TLS certificate for serving HTTPS. */
+export interface TLSConfig {
+  /** Path to the PEM certificate (chain), relative to the working directory. */
+  cert: string;
+  /** Path to the PEM private key. */
+  key: string;
+  /** Path to a PEM CA bundle. */
+  ca?: string;
+  /**
+   * Passphrase for an encrypted key. Prefer the `TLS_PASSPHRASE`
+   * environment variable, which overrides it and keeps the secret out of the
+   * build output.
+   */
+  passphrase?: string;
+  /** Hostname this certificate is served for (SNI). */
+  serverName?: string;
+}
+
 /** User-facing configuration for the Bun adapter. */
 interface BunAdapterConfig {
   /**
    * Override the default `Cache-Control` header for non-hashed static assets.
-   * Hashed assets under `/_astro/` always use
+   * Hashed assets under `/_astro/` (plus `immutablePaths` and, with
+   * `detectHashedAssets`, other fingerprinted files) always use
    * `public, max-age=31536000, immutable`. Route-level
    * `staticHeaders` still take precedence over this value.
    *
@@ -76,6 +315,28 @@ interface BunAdapterConfig {
    */
   staticCacheControl?: string;
 
+  /**
+   * Extra path patterns for fingerprinted static files that should get
+   * `public, max-age=31536000, immutable` like `/_astro/*`. `*` matches any
+   * run of characters (including `/`) and `:name` matches one path segment.
+   *
+   * @example
+   * bun({ immutablePaths: ["/pagefind/*", "/fonts/*.woff2"] })
+   */
+  immutablePaths?: string[];
+
+  /**
+   * Give static files with a content hash in their name (e.g.
+   * `pagefind.a1b2c3d4.js`, `inter.8f9e.woff2`) the immutable
+   * `Cache-Control`, wherever they live. A hash is a lowercase hex run
+   * right before the extension, mixing letters and digits: 4+ characters
+   * after a `.` or 8+ after a `-`. Base64url hashes (Vite's format) are
+   * not detected; list their directories in `immutablePaths` instead.
+   *
+   * @default false
+   */
+  detectHashedAssets?: boolean;
+
   /**
    * Enable ISR (Incremental Static Regeneration). When `true`, SSR responses
    * with `s-maxage` and optional `stale-while-revalidate` Cache-Control
@@ -94,6 +355,327 @@ interface BunAdapterConfig {
    * bun({ isr: { maxByteSize: 100 * 1024 * 1024 } })
    */
   isr?: boolean | ISRConfig;
+
+  /**
+   * Precompress static assets at build time. Compressible files (HTML, CSS,
+   * JS, JSON, SVG, ...) get Brotli and gzip siblings that are served
+   * according to the request's `Accept-Encoding`, with `Vary: Accept-Encoding`
+   * set on the response. Pass an object to choose codings.
+   *
+   * @default false
+   *
+   * @example
+   * // Brotli + gzip
+   * bun({ precompress: true })
+   *
+   * @example
+   * // Brotli + gzip + zstd
+   * bun({ precompress: { zstd: true } })
+   */
+  precompress?: boolean | PrecompressConfig;
+
+  /**
+   * Source of the `Last-Modified` header for static files. `"mtime"` uses
+   * each file's modification time; `"build"` stamps every file with the
+   * time the build finished, which keeps the value stable across files
+   * copied at different times (e.g. from `public/`).
+   *
+   * @default "mtime"
+   */
+  staticLastModified?: "mtime" | "build";
+
+  /**
+   * Extra headers for static files, keyed by path pattern. `*` matches any
+   * run of characters (including `/`) and `:name` matches one path segment.
+   * Patterns are matched against both the file path and its page route.
+   * Rules from a Netlify-style `public/_headers` file are applied first, so
+   * these win on conflicts; route-level `staticHeaders` and content-derived
+   * headers (`ETag`, `Content-Length`, `Content-Type`, ...) win over both.
+   *
+   * @example
+   * bun({
+   *   headers: {
+   *     "/fonts/*.woff2": { "Access-Control-Allow-Origin": "*" },
+   *     "/.well-known/*": { "Cache-Control": "no-cache" },
+   *   },
+   * })
+   */
+  headers?: Record<string, Record<string, string>>;
+
+  /**
+   * Keep small static files (favicons, small CSS, prerendered HTML) in
+   * memory and answer unconditional requests for them without touching the
+   * filesystem. Pass an object to customize the budget.
+   *
+   * @default false
+   *
+   * @example
+   * // Defaults (16 MB budget, files up to 64 KB, loaded on first hit)
+   * bun({ staticMemoryCache: true })
+   *
+   * @example
+   * // Load everything that fits at startup
+   * bun({ staticMemoryCache: { preload: true } })
+   */
+  staticMemoryCache?: boolean | StaticMemoryCacheConfig;
+
+  /**
+   * Register static files (including clean-URL HTML aliases) as native
+   * `Bun.serve` routes, answered without running JavaScript. Every
+   * registered file is buffered in memory at startup. Files with
+   * precompressed variants, files over `maxFileSize`, and redirect sources
+   * keep using the regular static handler. Native routes answer
+   * `If-None-Match` and `If-Modified-Since` with 304 and `If-Match` with
+   * 412, but ignore `If-Unmodified-Since` and `Range` (and don't advertise
+   * `Accept-Ranges`).
+   *
+   * @default false
+   */
+  nativeStaticRoutes?: boolean | NativeStaticRoutesConfig;
+
+  /**
+   * Path patterns of static files to never serve. `*` matches any run of
+   * characters (including `/`) and `:name` matches one path segment.
+   * Excluded files stay in `dist/client` but are left out of the static
+   * manifest, so requests for them fall through to SSR (usually a 404).
+   *
+   * @example
+   * bun({ staticExclude: ["/drafts/*", "*.psd"] })
+   */
+  staticExclude?: string[];
+
+  /**
+   * Serve dotfiles and files inside dot-directories (e.g. `.DS_Store`,
+   * `.env.example`). Files under `/.well-known/` are always served.
+   *
+   * @default false
+   */
+  serveDotfiles?: boolean;
+
+  /**
+   * Control access to source maps (`.map` files). `true` serves them like
+   * any other file, `false` leaves them out of the static manifest, and an
+   * object serves them only to requests carrying a matching token header
+   * (e.g. from an error-tracking service).
+   *
+   * @default true
+   *
+   * @example
+   * // Only serve maps to requests with `x-sourcemap-token: $SOURCEMAP_TOKEN`
+   * bun({ sourceMaps: { header: "x-sourcemap-token" } })
+   */
+  sourceMaps?: boolean | SourceMapGateConfig;
+
+  /**
+   * Charset appended to the `Content-Type` of textual static files (HTML,
+   * CSS, JS, plain text, XML, JSON, SVG). Set to `false` to send types
+   * without a charset.
+   *
+   * @default "utf-8"
+   */
+  charset?: string | false;
+
+  /**
+   * Per-extension charset overrides, winning over `charset`. `false` opts
+   * an extension out; a string sets its charset (for any known type).
+   *
+   * @example
+   * bun({ charsetByExtension: { ".csv": "windows-1252", ".js": false } })
+   */
+  charsetByExtension?: Record<string, string | false>;
+
+  /**
+   * Serve HTTPS directly. Certificate paths are read when the server starts,
+   * relative to the working directory. Pass an array with `serverName` set
+   * on each entry to serve several hostnames via SNI. `TLS_CERT` and
+   * `TLS_KEY` (plus optional `TLS_CA` and `TLS_PASSPHRASE`) environment
+   * variables replace this option at runtime.
+   *
+   * @example
+   * bun({ tls: { cert: "./certs/site.pem", key: "./certs/site-key.pem" } })
+   *
+   * @example
+   * // SNI
+   * bun({
+   *   tls: [
+   *     { serverName: "a.example.com", cert: "./a.pem", key: "./a-key.pem" },
+   *     { serverName: "b.example.com", cert: "./b.pem", key: "./b-key.pem" },
+   *   ],
+   * })
+   */
+  tls?: TLSConfig | TLSConfig[];
+
+  /**
+   * Port of an extra plain-HTTP listener that redirects every request to
+   * HTTPS. Only used when TLS is enabled. Overridden by the
+   * `HTTP_REDIRECT_PORT` environment variable.
+   *
+   * @example
+   * bun({ tls: { cert: "./cert.pem", key: "./key.pem" }, httpRedirectPort: 80 })
+   */
+  httpRedirectPort?: number;
+
+  /**
+   * Listen on a Unix domain socket instead of a TCP port, e.g. behind a
+   * reverse proxy on the same host. A stale socket file from a previous run
+   * is removed on start, and the socket is removed on graceful shutdown.
+   * `SOCKET_PATH` and `SOCKET_PERMISSIONS` (octal, e.g. `660`) override this
+   * option at runtime.
+   *
+   * @example
+   * bun({ socket: "/run/astro/astro.sock" })
+   *
+   * @example
+   * bun({ socket: { path: "/run/astro/astro.sock", permissions: 0o660 } })
+   */
+  socket?: string | UnixSocketConfig;
+
+  /**
+   * Run several worker processes that share the port via `reusePort`
+   * (Linux), so one server uses more than one CPU core. `"auto"` starts one
+   * worker per CPU. A primary process restarts crashed workers and forwards
+   * `SIGTERM`/`SIGINT`. The `WORKERS` environment variable overrides this
+   * option at runtime. Cannot be combined with `socket`.
+   *
+   * With ISR, each worker keeps its own cache (in `worker-<n>` under the
+   * cache dir); on-demand expirations are relayed to every worker.
+   *
+   * @default 1
+   *
+   * @example
+   * bun({ workers: "auto" })
+   */
+  workers?: number | "auto";
+
+  /**
+   * Milliseconds to wait for in-flight requests on `SIGTERM`/`SIGINT` before
+   * closing the remaining connections. The server stops accepting new
+   * connections (after `drainDelay`), then runs hooks registered with `onShutdown`
+   * (from `@wyattjoh/astro-bun-adapter/lifecycle`) and flushes the ISR
+   * cache. The `SHUTDOWN_TIMEOUT` environment variable overrides this option.
+   *
+   * @default 10000
+   */
+  shutdownTimeout?: number;
+
+  /**
+   * Milliseconds to keep the server accepting connections on
+   * `SIGTERM`/`SIGINT` before draining. Meanwhile the readiness probe (and
+   * `isDraining()`) reports not-ready, so load balancers can stop routing
+   * traffic before the listener closes. Set it to at least the probe
+   * interval times the failure threshold. The `DRAIN_DELAY` environment
+   * variable overrides this option.
+   *
+   * @default 0
+   *
+   * @example
+   * bun({ drainDelay: 5000 })
+   */
+  drainDelay?: number;
+
+  /**
+   * Answer liveness and readiness probes directly in the request handler,
+   * before redirects, static files, and SSR. Liveness always returns `200`;
+   * readiness returns `503` until the ISR cache has restored its index and
+   * again once a graceful shutdown starts. Pass an object to change the
+   * paths.
+   *
+   * @default false
+   *
+   * @example
+   * // `/_health` and `/_ready`
+   * bun({ health: true })
+   *
+   * @example
+   * bun({ health: { livenessPath: "/livez", readinessPath: "/readyz" } })
+   */
+  health?: boolean | HealthConfig;
+
+  /**
+   * Log every request answered by the request handler, with method, path,
+   * status, bytes, duration, client address, user agent, and the
+   * `x-astro-cache` status. Requests answered by `nativeStaticRoutes` never
+   * reach the handler and are not logged.
+   *
+   * @default false
+   *
+   * @example
+   * // Combined Log Format on stdout
+   * bun({ accessLog: true })
+   *
+   * @example
+   * bun({
+   *   accessLog: {
+   *     format: "json",
+   *     destination: "./logs/access.log",
+   *     sampleRate: 0.1,
+   *     exclude: ["/_health", "/_ready"],
+   *   },
+   * })
+   */
+  accessLog?: boolean | AccessLogConfig;
+
+  /**
+   * Expose request counters, latency histograms (by `x-astro-cache`
+   * status), and ISR cache gauges in the Prometheus text format. Restrict
+   * access with a bearer token, or serve the endpoint on a separate port
+   * that isn't publicly reachable. In cluster mode each worker reports its
+   * own metrics on its own port (see {@link MetricsConfig.port}).
+   *
+   * @default false
+   *
+   * @example
+   * // `/metrics` on the main server, open to anyone
+   * bun({ metrics: true })
+   *
+   * @example
+   * bun({ metrics: { port: 9091 } })
+   */
+  metrics?: boolean | MetricsConfig;
+
+  /**
+   * Record OpenTelemetry-compatible traces and export them over OTLP/HTTP
+   * (JSON). Each request gets a server span (continuing an incoming W3C
+   * `traceparent`) with child spans for Astro renders and, with ISR, cache
+   * lookups, disk loads, coalesced waits, and background revalidations.
+   * Pages and endpoints can read the active context from
+   * `Astro.locals.trace`.
+   *
+   * @default false
+   *
+   * @example
+   * // Export to a collector on localhost:4318
+   * bun({ tracing: true })
+   *
+   * @example
+   * bun({
+   *   tracing: {
+   *     endpoint: "https://otel.example.com/v1/traces",
+   *     serviceName: "storefront",
+   *     sampleRate: 0.1,
+   *   },
+   * })
+   */
+  tracing?: boolean | TracingConfig;
+
+  /**
+   * Trust the `Forwarded` (RFC 7239) or `X-Forwarded-For`, `-Proto`, and
+   * `-Host` headers of requests from these proxies, so `Astro.url`,
+   * `Astro.clientAddress`, and ISR cache keys reflect the original request.
+   * Pass the number of proxies in front of the server, or their addresses
+   * and CIDRs. Headers from any other peer are ignored. The
+   * `TRUSTED_PROXIES` environment variable overrides it at runtime.
+   *
+   * @default false
+   *
+   * @example
+   * // One load balancer in front of the server
+   * bun({ trustedProxies: 1 })
+   *
+   * @example
+   * bun({ trustedProxies: ["10.0.0.0/8", "127.0.0.1", "::1"] })
+   */
+  trustedProxies?: number | string[];
 }
 
 /** Create the Astro integration that configures and registers the Bun adapter. */
@@ -144,6 +726,24 @@ export default function bun(
         const isDevMode = command === "dev";
         const isrConfig: ISRConfig =
           typeof adapterConfig?.isr === "object" ? adapterConfig.isr : {};
+        const memoryCacheConfig: StaticMemoryCacheConfig =
+          typeof adapterConfig?.staticMemoryCache === "object"
+            ? adapterConfig.staticMemoryCache
+            : {};
+        const accessLogConfig: AccessLogConfig =
+          typeof adapterConfig?.accessLog === "object"
+            ? adapterConfig.accessLog
+            : {};
+        const healthConfig: HealthConfig =
+          typeof adapterConfig?.health === "object" ? adapterConfig.health : {};
+        const metricsConfig: MetricsConfig =
+          typeof adapterConfig?.metrics === "object"
+            ? adapterConfig.metrics
+            : {};
+        const tracingConfig: TracingConfig =
+          typeof adapterConfig?.tracing === "object"
+            ? adapterConfig.tracing
+            : {};
         const relativeAdapterDir = ".astro-bun-adapter";
         adapterDir = join(
           fileURLToPath(new URL(doneConfig.build.server)),
@@ -158,6 +758,7 @@ export default function bun(
           imageEndpointRoute: doneConfig.image.endpoint.route.startsWith("/")
             ? doneConfig.image.endpoint.route
             : `/${doneConfig.image.endpoint.route}`,
+          trailingSlash: doneConfig.trailingSlash,
           isr:
             !isDevMode && adapterConfig?.isr
               ? {
@@ -166,6 +767,70 @@ export default function bun(
                   preFillMemoryCache: isrConfig.preFillMemoryCache ?? false,
                 }
               : false,
+          nativeStaticRoutes: adapterConfig?.nativeStaticRoutes
+            ? {
+                maxFileSize:
+                  (typeof adapterConfig.nativeStaticRoutes === "object"
+                    ? adapterConfig.nativeStaticRoutes.maxFileSize
+                    : undefined) ?? 1024 * 1024,
+              }
+            : false,
+          tls: adapterConfig?.tls ? [adapterConfig.tls].flat() : false,
+          httpRedirectPort: adapterConfig?.httpRedirectPort ?? false,
+          workers: adapterConfig?.workers ?? 1,
+          shutdownTimeout: adapterConfig?.shutdownTimeout ?? 10_000,
+          drainDelay: adapterConfig?.drainDelay ?? 0,
+          accessLog: adapterConfig?.accessLog
+            ? {
+                format: accessLogConfig.format ?? "combined",
+                destination: accessLogConfig.destination ?? "stdout",
+                sampleRate: accessLogConfig.sampleRate ?? 1,
+                exclude: accessLogConfig.exclude ?? [],
+              }
+            : false,
+          health: adapterConfig?.health
+            ? {
+                livenessPath: healthConfig.livenessPath ?? "/_health",
+                readinessPath: healthConfig.readinessPath ?? "/_ready",
+              }
+            : false,
+          metrics: adapterConfig?.metrics
+            ? {
+                path: metricsConfig.path ?? "/metrics",
+                port: metricsConfig.port,
+                token: metricsConfig.token,
+              }
+            : false,
+          tracing: adapterConfig?.tracing
+            ? {
+                endpoint:
+                  tracingConfig.endpoint ?? "http://localhost:4318/v1/traces",
+                headers: tracingConfig.headers ?? {},
+                serviceName: tracingConfig.serviceName ?? "astro",
+                sampleRate: tracingConfig.sampleRate ?? 1,
+              }
+            : false,
+          trustedProxies: adapterConfig?.trustedProxies ?? false,
+          socket:
+            typeof adapterConfig?.socket === "string"
+              ? { path: adapterConfig.socket }
+              : (adapterConfig?.socket ?? false),
+          sourceMapGate:
+            typeof adapterConfig?.sourceMaps === "object"
+              ? {
+                  header: (
+                    adapterConfig.sourceMaps.header ?? "x-sourcemap-token"
+                  ).toLowerCase(),
+                  token: adapterConfig.sourceMaps.token,
+                }
+              : false,
+          staticMemoryCache: adapterConfig?.staticMemoryCache
+            ? {
+                maxByteSize: memoryCacheConfig.maxByteSize ?? 16 * 1024 * 1024,
+                maxFileSize: memoryCacheConfig.maxFileSize ?? 64 * 1024,
+                preload: memoryCacheConfig.preload ?? false,
+              }
+            : false,
         });
 
         setAdapter(getAdapter());
@@ -198,7 +863,33 @@ export default function bun(
           adapterDir,
           config.build.assets,
           serializedRouteHeaders,
-          staticCacheControl
+          staticCacheControl,
+          {
+            precompress: resolvePrecompress(adapterConfig?.precompress),
+            buildFormat: config.build.format,
+            headerRules: Object.entries(adapterConfig?.headers ?? {}).map(
+              ([pattern, headers]) => ({ pattern, headers })
+            ),
+            trailingSlash: config.trailingSlash,
+            immutablePaths: adapterConfig?.immutablePaths,
+            detectHashedAssets: adapterConfig?.detectHashedAssets,
+            exclude: adapterConfig?.staticExclude,
+            includeDotfiles: adapterConfig?.serveDotfiles,
+            includeSourceMaps: adapterConfig?.sourceMaps !== false,
+            charset: adapterConfig?.charset,
+            charsetByExtension: adapterConfig?.charsetByExtension,
+            lastModified:
+              adapterConfig?.staticLastModified === "build"
+                ? new Date()
+                : undefined,
+          }
+        );
+
+        // Astro's redirects are served from a runtime table instead of the
+        // static HTML files that `build.redirects` would emit.
+        await writeFile(
+          join(adapterDir, "redirects.json"),
+          JSON.stringify(serializeRedirects(config.redirects))
         );
 
         const buildId = randomUUID();
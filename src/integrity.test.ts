@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { getIntegrity, registerIntegrity } from "./integrity.ts";
+
+const INTEGRITY_KEY = Symbol.for("@wyattjoh/astro-bun-adapter:integrity");
+
+afterEach(() => {
+  // Clean up the global lookup between tests.
+  delete (globalThis as Record<symbol, unknown>)[INTEGRITY_KEY];
+});
+
+describe("getIntegrity", () => {
+  test("returns undefined when no lookup is registered", () => {
+    expect(getIntegrity("/_astro/app.js")).toBeUndefined();
+  });
+
+  test("looks up paths and absolute URLs by decoded pathname", () => {
+    const digests: Record<string, string> = {
+      "/_astro/app.js": "sha384-app",
+      "/_astro/my file.css": "sha384-css",
+    };
+    registerIntegrity((pathname) => digests[pathname]);
+
+    expect(getIntegrity("/_astro/app.js")).toBe("sha384-app");
+    expect(getIntegrity("https://cdn.example.com/_astro/app.js?v=1#x")).toBe(
+      "sha384-app"
+    );
+    expect(getIntegrity(new URL("https://cdn.example.com/_astro/app.js"))).toBe(
+      "sha384-app"
+    );
+    expect(getIntegrity("/_astro/my%20file.css")).toBe("sha384-css");
+    expect(getIntegrity("/_astro/missing.js")).toBeUndefined();
+  });
+
+  test("returns undefined for malformed percent-encoding", () => {
+    registerIntegrity(() => "sha384-any");
+    expect(getIntegrity("/_astro/%E0%A4%A.js")).toBeUndefined();
+  });
+});
@@ -0,0 +1,47 @@
+const INTEGRITY_KEY = Symbol.for("@wyattjoh/astro-bun-adapter:integrity");
+
+/** Resolves a decoded URL pathname to its SRI digest. */
+type IntegrityLookup = (pathname: string) => string | undefined;
+
+/** @internal Register the integrity lookup on globalThis for cross-module access. */
+export function registerIntegrity(lookup: IntegrityLookup): void {
+  (globalThis as Record<symbol, unknown>)[INTEGRITY_KEY] = lookup;
+}
+
+function getLookup(): IntegrityLookup | undefined {
+  return (globalThis as Record<symbol, unknown>)[INTEGRITY_KEY] as
+    | IntegrityLookup
+    | undefined;
+}
+
+/**
+ * Look up the Subresource Integrity digest (`sha384-...`) of a static asset
+ * from the build's `integrity-manifest.json`. Accepts a path or an absolute
+ * URL (e.g. a CDN copy under `build.assetsPrefix`); the query string and
+ * fragment are ignored.
+ *
+ * Returns `undefined` for unknown assets, and whenever the adapter's server
+ * is not running (e.g. while prerendering, before the manifest exists).
+ *
+ * @example
+ * ```astro
+ * ---
+ * import { getIntegrity } from "@wyattjoh/astro-bun-adapter/integrity";
+ *
+ * const src = "https://cdn.example.com/_astro/app.B3xK9q1z.js";
+ * ---
+ * <script src={src} integrity={getIntegrity(src)} crossorigin="anonymous" />
+ * ```
+ */
+export function getIntegrity(url: string | URL): string | undefined {
+  const lookup = getLookup();
+  if (!lookup) return undefined;
+
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(new URL(url, "http://localhost").pathname);
+  } catch {
+    return undefined;
+  }
+  return lookup(pathname);
+}
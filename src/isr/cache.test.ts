@@ -43,6 +43,20 @@ describe("PersistentLRUCache", () => {
     cache.destroy();
   });
 
+  test("isReady — false until the disk index is restored", async () => {
+    const cache = new PersistentLRUCache({
+      maxByteSize: 1024,
+      cacheDir: testCacheDir(),
+      buildId: BUILD_ID,
+      preFillMemoryCache: false,
+    });
+
+    expect(cache.isReady).toBe(false);
+    await cache.get("missing");
+    expect(cache.isReady).toBe(true);
+    cache.destroy();
+  });
+
   test("get — returns undefined for missing key", async () => {
     const cache = new PersistentLRUCache({
       maxByteSize: 1024,
@@ -259,6 +273,35 @@ describe("PersistentLRUCache", () => {
     cache.destroy();
   });
 
+  test("stats — reports sizes, evictions, and disk loads", async () => {
+    const cache = new PersistentLRUCache({
+      maxByteSize: 200,
+      cacheDir: testCacheDir(),
+      buildId: BUILD_ID,
+      preFillMemoryCache: false,
+    });
+
+    await cache.set("a", makeEntry(100));
+    await cache.set("b", makeEntry(100));
+    await cache.set("c", makeEntry(100));
+    await cache.save();
+    expect(cache.stats()).toEqual({
+      currentBytes: 200,
+      maxByteSize: 200,
+      memoryEntries: 2,
+      diskEntries: 3,
+      evictions: 1,
+      diskLoads: 0,
+      pendingWrites: 0,
+    });
+
+    // Loading "a" back from disk evicts "b" to make room.
+    await cache.get("a");
+    expect(cache.stats()).toMatchObject({ evictions: 2, diskLoads: 1 });
+
+    cache.destroy();
+  });
+
   test("delete — removes entry file from disk", async () => {
     const dir = testCacheDir();
     const cache = new PersistentLRUCache({
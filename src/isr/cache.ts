@@ -2,7 +2,8 @@ import { mkdir, rm } from "node:fs/promises";
 import { join } from "node:path";
 import { decode, encode } from "cbor2";
 import debug from "debug";
-import type { ISRCacheEntry } from "../types.ts";
+import { type Tracer, withSpan } from "../tracing.ts";
+import type { ISRCacheEntry, ISRCacheStats } from "../types.ts";
 
 const log = debug("@wyattjoh/astro-bun-adapter:cache");
 
@@ -44,6 +45,8 @@ interface PersistentLRUCacheOptions {
   cacheDir: string;
   buildId: string;
   preFillMemoryCache: boolean;
+  /** Records a span for each disk load on a memory miss. */
+  tracer?: Tracer;
 }
 
 /**
@@ -63,11 +66,16 @@ export class PersistentLRUCache {
   private readonly tail: BoundaryNode;
   private currentBytes = 0;
   private ready: Promise<void> | true;
+  /** Entries dropped from memory to stay within budget (since start). */
+  private evictions = 0;
+  /** Entries read back from disk (since start). */
+  private diskLoads = 0;
 
   private readonly maxByteSize: number;
   private readonly cacheDir: string;
   private readonly buildId: string;
   private readonly preFillMemoryCache: boolean;
+  private readonly tracer: Tracer | undefined;
   private readonly entriesDir: string;
   private readonly indexPath: string;
 
@@ -100,6 +108,7 @@ export class PersistentLRUCache {
     this.cacheDir = options.cacheDir;
     this.buildId = options.buildId;
     this.preFillMemoryCache = options.preFillMemoryCache;
+    this.tracer = options.tracer;
     this.entriesDir = join(options.cacheDir, options.buildId, "entries");
     this.indexPath = join(options.cacheDir, options.buildId, "index.json");
 
@@ -112,6 +121,11 @@ export class PersistentLRUCache {
     this.ready = this.load();
   }
 
+  /** Whether the on-disk index has been restored and `get()` won't block. */
+  get isReady(): boolean {
+    return this.ready === true;
+  }
+
   /**
    * Retrieve an entry by key, promoting it to the most-recently-used position.
    * Falls back to disk when the key is not in memory but exists on disk.
@@ -137,7 +151,12 @@ export class PersistentLRUCache {
     if (!this.diskKeys.has(key)) return undefined;
 
     // Start a disk load and register it so concurrent callers piggyback.
-    const load = this.loadFromDisk(key);
+    const load = withSpan(
+      this.tracer,
+      "isr.disk_load",
+      { "isr.cache_key": key },
+      () => this.loadFromDisk(key)
+    );
     this.pendingLoads.set(key, load);
     return load;
   }
@@ -210,6 +229,19 @@ export class PersistentLRUCache {
     }
   }
 
+  /** Point-in-time sizes and lifetime counters, for metrics. */
+  stats(): ISRCacheStats {
+    return {
+      currentBytes: this.currentBytes,
+      maxByteSize: this.maxByteSize,
+      memoryEntries: this.entries.size,
+      diskEntries: this.diskKeys.size,
+      evictions: this.evictions,
+      diskLoads: this.diskLoads,
+      pendingWrites: this.pendingWrites.size,
+    };
+  }
+
   /** All keys known to the cache (both in-memory and on-disk). */
   get keys(): ReadonlySet<string> {
     return this.diskKeys;
@@ -240,6 +272,7 @@ export class PersistentLRUCache {
       const path = this.entryPath(hash);
       const raw = new Uint8Array(await Bun.file(path).arrayBuffer());
       const entry = decode(raw) as ISRCacheEntry;
+      this.diskLoads++;
 
       // A concurrent set() may have inserted this key while we were reading
       // from disk — if so, promote the existing node and return its value.
@@ -372,6 +405,7 @@ export class PersistentLRUCache {
       if (oldest instanceof BoundaryNode) break;
       this.detach(oldest);
       log(`LRU evicted from memory: ${oldest.key} (${oldest.size} bytes)`);
+      this.evictions++;
       this.entries.delete(oldest.key);
       this.currentBytes -= oldest.size;
       // Entry stays on disk — do NOT remove from diskKeys.
@@ -1,6 +1,7 @@
 import { describe, expect, mock, test } from "bun:test";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { createTracer, type FinishedSpan } from "../tracing.ts";
 import { createISRHandler } from "./handler.ts";
 
 function makeHandler(
@@ -46,6 +47,32 @@ describe("createISRHandler", () => {
     expect(await res.text()).toBe("ok");
   });
 
+  test("renders misses and revalidations with a per-request render", async () => {
+    const origin = makeHandler();
+    const render = makeHandler({
+      "cache-control": "s-maxage=1, stale-while-revalidate=10",
+    });
+    const isr = createISRHandler({
+      origin,
+      maxByteSize: 1024 * 1024,
+      cacheDir: testCacheDir(),
+      buildId: BUILD_ID,
+      preFillMemoryCache: false,
+      imageEndpointRoute: "/_image",
+    });
+
+    const miss = await isr(request("/page"), "/page", render);
+    await miss.text();
+    expect(render).toHaveBeenCalledTimes(1);
+
+    // Wait until the entry is stale, then trigger a revalidation.
+    await new Promise((r) => setTimeout(r, 1100));
+    const stale = await isr(request("/page"), "/page", render);
+    expect(stale.headers.get("x-astro-cache")).toBe("STALE");
+    expect(render).toHaveBeenCalledTimes(2);
+    expect(origin).not.toHaveBeenCalled();
+  });
+
   test("cacheable response populates cache (fresh hit)", async () => {
     const handler = makeHandler({ "cache-control": "s-maxage=60" }, "cached");
     const isr = createISRHandler({
@@ -205,6 +232,10 @@ describe("createISRHandler", () => {
     expect(await first.text()).toBe("response-1");
     // Second caller gets the cached response (same body).
     expect(await second.text()).toBe("response-1");
+    expect(isr.stats()).toMatchObject({
+      coalescedWaits: 1,
+      inflightRenders: 0,
+    });
   });
 
   test("SWR revalidation deduplication", async () => {
@@ -243,6 +274,7 @@ describe("createISRHandler", () => {
 
     // 1 initial + 1 background revalidation = 2 total.
     expect(handler).toHaveBeenCalledTimes(2);
+    expect(isr.stats().revalidations).toBe(1);
   });
 
   test("image endpoint response with only max-age gets cached via override", async () => {
@@ -415,4 +447,37 @@ describe("createISRHandler", () => {
     // No additional handler calls.
     expect(handler).toHaveBeenCalledTimes(2);
   });
+
+  test("records lookup and coalesced wait spans", async () => {
+    const spans: FinishedSpan[] = [];
+    const tracer = createTracer({
+      exporter: { add: (span) => spans.push(span), flush: async () => {} },
+      sampleRate: 1,
+    });
+    const isr = createISRHandler({
+      origin: makeHandler({ "cache-control": "s-maxage=60" }),
+      maxByteSize: 1024 * 1024,
+      cacheDir: testCacheDir(),
+      buildId: BUILD_ID,
+      preFillMemoryCache: false,
+      imageEndpointRoute: "/_image",
+      tracer,
+    });
+
+    await tracer.startActiveSpan("GET", { kind: "server" }, async () => {
+      const responses = await Promise.all([
+        isr(request("/page"), "/page"),
+        isr(request("/page"), "/page"),
+      ]);
+      await Promise.all(responses.map((res) => res.text()));
+    });
+
+    const server = spans.find((span) => span.name === "GET");
+    const names = spans
+      .filter((span) => span.parentSpanId === server?.context.spanId)
+      .map((span) => span.name)
+      .sort();
+    expect(names).toEqual(["isr.coalesced_wait", "isr.lookup", "isr.lookup"]);
+    expect(spans[0].attributes).toEqual({ "isr.cache_key": "/page" });
+  });
 });
@@ -1,6 +1,7 @@
 import { parse as parseCacheControl } from "cache-control-parser";
 import debug from "debug";
 import { CACHE_HEADER } from "../constants.ts";
+import { type Tracer, withSpan } from "../tracing.ts";
 import type { ISRCache, ISRCacheEntry, ISRHandler } from "../types.ts";
 import { PersistentLRUCache } from "./cache.ts";
 
@@ -123,6 +124,8 @@ interface ISRHandlerOptions {
   buildId: string;
   preFillMemoryCache: boolean;
   imageEndpointRoute: string;
+  /** Records lookup, disk load, coalesced wait, and revalidation spans. */
+  tracer?: Tracer;
 }
 
 /** Create an ISR handler with LRU caching, stale-while-revalidate, and request coalescing. */
@@ -134,18 +137,25 @@ export function createISRHandler(options: ISRHandlerOptions): ISRHandler {
     buildId,
     preFillMemoryCache,
     imageEndpointRoute,
+    tracer,
   } = options;
   const cache = new PersistentLRUCache({
     maxByteSize,
     cacheDir,
     buildId,
     preFillMemoryCache,
+    tracer,
   });
   const revalidating = new Set<string>();
   const inflight = new Map<string, Promise<ISRCacheEntry | undefined>>();
+  let revalidations = 0;
+  let coalescedWaits = 0;
 
-  const handler = (async (request, cacheKey) => {
-    const entry = await cache.get(cacheKey);
+  const handler = (async (request, cacheKey, render = origin) => {
+    const attributes = { "isr.cache_key": cacheKey };
+    const entry = await withSpan(tracer, "isr.lookup", attributes, () =>
+      cache.get(cacheKey)
+    );
     if (entry) {
       const elapsed = Date.now() - entry.cachedAt;
 
@@ -162,16 +172,22 @@ export function createISRHandler(options: ISRHandlerOptions): ISRHandler {
         log(`ISR cache STALE for ${cacheKey}, serving stale`);
         if (!revalidating.has(cacheKey)) {
           revalidating.add(cacheKey);
+          revalidations++;
           log(`ISR revalidating ${cacheKey}`);
-          const result = renderToEntry(
-            new Request(request.url, request),
-            origin,
-            cache,
-            cacheKey,
-            "STALE",
-            imageEndpointRoute
-          );
-          result.entry
+          withSpan(
+            tracer,
+            "isr.revalidate",
+            attributes,
+            () =>
+              renderToEntry(
+                new Request(request.url, request),
+                render,
+                cache,
+                cacheKey,
+                "STALE",
+                imageEndpointRoute
+              ).entry
+          )
             .catch(() => {})
             .finally(() => revalidating.delete(cacheKey));
         }
@@ -191,7 +207,7 @@ export function createISRHandler(options: ISRHandlerOptions): ISRHandler {
     if (!pending) {
       const result = renderToEntry(
         request,
-        origin,
+        render,
         cache,
         cacheKey,
         "MISS",
@@ -205,17 +221,30 @@ export function createISRHandler(options: ISRHandlerOptions): ISRHandler {
     }
 
     // Subsequent callers wait for the cache entry.
-    const cached = await pending;
+    coalescedWaits++;
+    const cached = await withSpan(
+      tracer,
+      "isr.coalesced_wait",
+      attributes,
+      () => pending
+    );
     if (cached) return responseFromEntry(cached, "MISS");
 
     // Not cacheable — fall through to direct SSR.
     log(`ISR BYPASS for ${cacheKey} (not cacheable)`);
-    const response = await origin(request);
+    const response = await render(request);
     response.headers.set(CACHE_HEADER, "BYPASS");
     return response;
   }) as ISRHandler;
 
   handler.shutdown = () => cache.save();
+  handler.isReady = () => cache.isReady;
+  handler.stats = () => ({
+    ...cache.stats(),
+    revalidations,
+    coalescedWaits,
+    inflightRenders: inflight.size,
+  });
   handler.cache = {
     expire: (key) => cache.delete(key),
     expireAll: async () => {
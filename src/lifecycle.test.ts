@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  isDraining,
+  onShutdown,
+  resolveShutdownTimings,
+  runShutdownHooks,
+  startDraining,
+} from "./lifecycle.ts";
+
+const LIFECYCLE_KEY = Symbol.for("@wyattjoh/astro-bun-adapter:lifecycle");
+
+afterEach(() => {
+  // Reset hooks and draining state between tests.
+  delete (globalThis as Record<symbol, unknown>)[LIFECYCLE_KEY];
+});
+
+// Hooks live in process-wide state, so these tests must not interleave.
+describe.serial("onShutdown", () => {
+  test("runs registered hooks", async () => {
+    const calls: string[] = [];
+    onShutdown(() => {
+      calls.push("sync");
+    });
+    onShutdown(async () => {
+      calls.push("async");
+    });
+
+    expect(await runShutdownHooks()).toEqual([]);
+    expect(calls.sort()).toEqual(["async", "sync"]);
+  });
+
+  test("unregisters a hook", async () => {
+    let called = false;
+    const off = onShutdown(() => {
+      called = true;
+    });
+    off();
+
+    await runShutdownHooks();
+    expect(called).toBe(false);
+  });
+
+  test("collects failures without skipping other hooks", async () => {
+    const error = new Error("close failed");
+    let called = false;
+    onShutdown(() => {
+      throw error;
+    });
+    onShutdown(() => {
+      called = true;
+    });
+
+    expect(await runShutdownHooks()).toEqual([error]);
+    expect(called).toBe(true);
+  });
+});
+
+describe("isDraining", () => {
+  test("is false until draining starts", () => {
+    expect(isDraining()).toBe(false);
+    startDraining();
+    expect(isDraining()).toBe(true);
+  });
+});
+
+describe("resolveShutdownTimings", () => {
+  const config = { drainDelay: 0, shutdownTimeout: 10_000 };
+
+  test("uses the configured timings", () => {
+    expect(resolveShutdownTimings(config, {})).toEqual(config);
+  });
+
+  test("environment variables override the config", () => {
+    expect(
+      resolveShutdownTimings(config, {
+        DRAIN_DELAY: "5000",
+        SHUTDOWN_TIMEOUT: "30000",
+      })
+    ).toEqual({ drainDelay: 5000, shutdownTimeout: 30_000 });
+  });
+
+  test("rejects invalid timings", () => {
+    expect(() =>
+      resolveShutdownTimings(config, { SHUTDOWN_TIMEOUT: "abc" })
+    ).toThrow('Invalid SHUTDOWN_TIMEOUT "abc"');
+    expect(() => resolveShutdownTimings(config, { DRAIN_DELAY: "-1" })).toThrow(
+      "Invalid DRAIN_DELAY"
+    );
+    expect(() =>
+      resolveShutdownTimings({ ...config, shutdownTimeout: Infinity }, {})
+    ).toThrow("Invalid SHUTDOWN_TIMEOUT");
+  });
+});
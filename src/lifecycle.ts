@@ -0,0 +1,102 @@
+import debug from "debug";
+
+const log = debug("@wyattjoh/astro-bun-adapter:lifecycle");
+
+const LIFECYCLE_KEY = Symbol.for("@wyattjoh/astro-bun-adapter:lifecycle");
+
+/** A function run once while the server shuts down. */
+export type ShutdownHook = () => void | Promise<void>;
+
+/** Process-wide shutdown state, shared across bundles via globalThis. */
+interface LifecycleState {
+  hooks: Set<ShutdownHook>;
+  draining: boolean;
+}
+
+function getState(): LifecycleState {
+  const global = globalThis as Record<symbol, unknown>;
+  global[LIFECYCLE_KEY] ??= { hooks: new Set(), draining: false };
+  return global[LIFECYCLE_KEY] as LifecycleState;
+}
+
+/**
+ * Register a hook to run during graceful shutdown, after in-flight requests
+ * have drained (or the drain timeout expired) and before the ISR cache is
+ * flushed. Hooks run concurrently; a failing hook is logged and does not
+ * stop the others. Returns a function that unregisters the hook.
+ *
+ * @example
+ * ```ts
+ * import { onShutdown } from "@wyattjoh/astro-bun-adapter/lifecycle";
+ *
+ * onShutdown(async () => {
+ *   await db.close();
+ * });
+ * ```
+ */
+export function onShutdown(hook: ShutdownHook): () => void {
+  const { hooks } = getState();
+  hooks.add(hook);
+  return () => {
+    hooks.delete(hook);
+  };
+}
+
+/**
+ * Whether the server is shutting down. Readiness checks should report
+ * not-ready while this is `true` so load balancers stop routing traffic.
+ */
+export function isDraining(): boolean {
+  return getState().draining;
+}
+
+/** Resolved graceful shutdown timings, in milliseconds. */
+interface ShutdownTimings {
+  drainDelay: number;
+  shutdownTimeout: number;
+}
+
+/**
+ * @internal Resolve the shutdown timings. `DRAIN_DELAY` and
+ * `SHUTDOWN_TIMEOUT` override the config; both must be non-negative
+ * numbers of milliseconds.
+ */
+export function resolveShutdownTimings(
+  config: ShutdownTimings,
+  env: Record<string, string | undefined>
+): ShutdownTimings {
+  const resolve = (name: string, value: string | number) => {
+    const ms = Number(value);
+    if (!Number.isFinite(ms) || ms < 0) {
+      throw new Error(
+        `Invalid ${name} "${value}": expected a non-negative number of milliseconds`
+      );
+    }
+    return ms;
+  };
+  return {
+    drainDelay: resolve("DRAIN_DELAY", env.DRAIN_DELAY || config.drainDelay),
+    shutdownTimeout: resolve(
+      "SHUTDOWN_TIMEOUT",
+      env.SHUTDOWN_TIMEOUT || config.shutdownTimeout
+    ),
+  };
+}
+
+/** @internal Mark the server as draining. */
+export function startDraining(): void {
+  getState().draining = true;
+}
+
+/**
+ * @internal Run every registered shutdown hook once, returning the errors
+ * of the hooks that failed.
+ */
+export async function runShutdownHooks(): Promise<unknown[]> {
+  const hooks = [...getState().hooks];
+  log(`Running ${hooks.length} shutdown hooks`);
+  const results = await Promise.allSettled(hooks.map(async (hook) => hook()));
+  return results
+    .filter((result) => result.status === "rejected")
+    .map((result) => result.reason);
+}
@@ -1,8 +1,16 @@
 import { describe, expect, test } from "bun:test";
-import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { createHash } from "node:crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  utimesSync,
+  writeFileSync,
+} from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
-import { generateStaticManifest } from "./manifest.ts";
+import { brotliDecompressSync } from "node:zlib";
+import { generateStaticManifest, isHashedFilename } from "./manifest.ts";
 import type { StaticManifest } from "./types.ts";
 
 function testDir() {
@@ -44,6 +52,254 @@ describe("generateStaticManifest", () => {
     );
   });
 
+  test("hashed assets are immutable regardless of assets prefix slashes", async () => {
+    const clientDir = testDir();
+    const outDir = testDir();
+
+    mkdirSync(join(clientDir, "_astro"), { recursive: true });
+    writeFileSync(join(clientDir, "_astro", "main.B3xK9.js"), "x");
+    writeFileSync(join(clientDir, "favicon.svg"), "<svg/>");
+
+    await generateStaticManifest(
+      clientDir,
+      outDir,
+      "/_astro/",
+      undefined,
+      "public, max-age=86400, must-revalidate"
+    );
+
+    const manifest = readManifest(outDir);
+    expect(manifest["/_astro/main.B3xK9.js"].headers["cache-control"]).toBe(
+      "public, max-age=31536000, immutable"
+    );
+    expect(manifest["/favicon.svg"].headers["cache-control"]).toBe(
+      "public, max-age=86400, must-revalidate"
+    );
+  });
+
+  test("immutablePaths mark matching files immutable", async () => {
+    const clientDir = testDir();
+    const outDir = testDir();
+
+    mkdirSync(join(clientDir, "pagefind"), { recursive: true });
+    writeFileSync(join(clientDir, "pagefind", "pagefind.js"), "x");
+    writeFileSync(join(clientDir, "robots.txt"), "x");
+
+    await generateStaticManifest(
+      clientDir,
+      outDir,
+      "_astro",
+      undefined,
+      "public, max-age=86400, must-revalidate",
+      { immutablePaths: ["/pagefind/*"] }
+    );
+
+    const manifest = readManifest(outDir);
+    expect(manifest["/pagefind/pagefind.js"].headers["cache-control"]).toBe(
+      "public, max-age=31536000, immutable"
+    );
+    expect(manifest["/robots.txt"].headers["cache-control"]).toBe(
+      "public, max-age=86400, must-revalidate"
+    );
+  });
+
+  test("detectHashedAssets marks fingerprinted files immutable", async () => {
+    const clientDir = testDir();
+    const outDir = testDir();
+
+    mkdirSync(join(clientDir, "fonts"), { recursive: true });
+    writeFileSync(join(clientDir, "fonts", "inter.8f9e2a.woff2"), "x");
+    writeFileSync(join(clientDir, "fonts", "inter.woff2"), "x");
+
+    await generateStaticManifest(
+      clientDir,
+      outDir,
+      "_astro",
+      undefined,
+      "public, max-age=86400, must-revalidate",
+      { detectHashedAssets: true }
+    );
+
+    const manifest = readManifest(outDir);
+    expect(manifest["/fonts/inter.8f9e2a.woff2"].headers["cache-control"]).toBe(
+      "public, max-age=31536000, immutable"
+    );
+    expect(manifest["/fonts/inter.woff2"].headers["cache-control"]).toBe(
+      "public, max-age=86400, must-revalidate"
+    );
+  });
+
+  test("writes sha384 SRI digests for every file", async () => {
+    const clientDir = testDir();
+    const outDir = testDir();
+
+    mkdirSync(join(clientDir, "_astro"), { recursive: true });
+    writeFileSync(join(clientDir, "_astro", "app.js"), "console.log(1);");
+    writeFileSync(join(clientDir, "index.html"), "<h1>home</h1>");
+
+    await generateStaticManifest(
+      clientDir,
+      outDir,
+      "_astro",
+      undefined,
+      "public, max-age=86400, must-revalidate"
+    );
+
+    const integrity = JSON.parse(
+      readFileSync(join(outDir, "integrity-manifest.json"), "utf-8")
+    );
+    const expected = createHash("sha384")
+      .update("console.log(1);")
+      .digest("base64");
+    expect(integrity["/_astro/app.js"]).toBe(`sha384-${expected}`);
+    expect(integrity["/index.html"]).toStartWith("sha384-");
+    // Page aliases are not files, so they carry no digest.
+    expect(integrity["/"]).toBeUndefined();
+  });
+
+  test("excludes dotfiles except .well-known", async () => {
+    const clientDir = testDir();
+    const outDir = testDir();
+
+    mkdirSync(join(clientDir, ".well-known"), { recursive: true });
+    mkdirSync(join(clientDir, ".git"), { recursive: true });
+    writeFileSync(join(clientDir, ".well-known", "security.txt"), "x");
+    writeFileSync(join(clientDir, ".git", "HEAD"), "x");
+    writeFileSync(join(clientDir, ".DS_Store"), "x");
+    writeFileSync(join(clientDir, ".env.example"), "x");
+
+    await generateStaticManifest(
+      clientDir,
+      outDir,
+      "_astro",
+      undefined,
+      "public, max-age=86400, must-revalidate"
+    );
+
+    expect(Object.keys(readManifest(outDir))).toEqual([
+      "/.well-known/security.txt",
+    ]);
+
+    await generateStaticManifest(
+      clientDir,
+      outDir,
+      "_astro",
+      undefined,
+      "public, max-age=86400, must-revalidate",
+      { includeDotfiles: true }
+    );
+
+    expect(Object.keys(readManifest(outDir)).sort()).toEqual([
+      "/.DS_Store",
+      "/.env.example",
+      "/.git/HEAD",
+      "/.well-known/security.txt",
+    ]);
+  });
+
+  test("excludes configured patterns and source maps", async () => {
+    const clientDir = testDir();
+    const outDir = testDir();
+
+    mkdirSync(join(clientDir, "_astro"), { recursive: true });
+    mkdirSync(join(clientDir, "drafts"), { recursive: true });
+    writeFileSync(join(clientDir, "_astro", "app.js"), "x");
+    writeFileSync(join(clientDir, "_astro", "app.js.map"), "{}");
+    writeFileSync(join(clientDir, "drafts", "post.html"), "x");
+
+    await generateStaticManifest(
+      clientDir,
+      outDir,
+      "_astro",
+      undefined,
+      "public, max-age=86400, must-revalidate",
+      { exclude: ["/drafts/*"], includeSourceMaps: false }
+    );
+
+    expect(Object.keys(readManifest(outDir))).toEqual(["/_astro/app.js"]);
+    const integrity = JSON.parse(
+      readFileSync(join(outDir, "integrity-manifest.json"), "utf-8")
+    );
+    expect(Object.keys(integrity)).toEqual(["/_astro/app.js"]);
+  });
+
+  test("appends a utf-8 charset to textual types", async () => {
+    const clientDir = testDir();
+    const outDir = testDir();
+
+    mkdirSync(join(clientDir, "about"), { recursive: true });
+    writeFileSync(join(clientDir, "about", "index.html"), "about");
+    writeFileSync(join(clientDir, "feed.xml"), "<rss/>");
+    writeFileSync(join(clientDir, "notes.txt"), "notes");
+    writeFileSync(join(clientDir, "app.js"), "x");
+    writeFileSync(join(clientDir, "logo.png"), "png");
+
+    await generateStaticManifest(
+      clientDir,
+      outDir,
+      "_astro",
+      undefined,
+      "public, max-age=86400, must-revalidate",
+      { buildFormat: "directory" }
+    );
+
+    const manifest = readManifest(outDir);
+    const type = (path: string) => manifest[path].headers["content-type"];
+    expect(type("/about/index.html")).toBe("text/html; charset=utf-8");
+    // Page aliases share the file's headers.
+    expect(type("/about")).toBe("text/html; charset=utf-8");
+    expect(type("/about/")).toBe("text/html; charset=utf-8");
+    expect(type("/feed.xml")).toBe("text/xml; charset=utf-8");
+    expect(type("/notes.txt")).toBe("text/plain; charset=utf-8");
+    expect(type("/app.js")).toBe("text/javascript; charset=utf-8");
+    expect(type("/logo.png")).toBe("image/png");
+  });
+
+  test("overrides or disables the charset", async () => {
+    const clientDir = testDir();
+    const outDir = testDir();
+
+    writeFileSync(join(clientDir, "index.html"), "home");
+    writeFileSync(join(clientDir, "notes.txt"), "notes");
+    writeFileSync(join(clientDir, "app.js"), "x");
+
+    await generateStaticManifest(
+      clientDir,
+      outDir,
+      "_astro",
+      undefined,
+      "public, max-age=86400, must-revalidate",
+      {
+        charset: "iso-8859-1",
+        charsetByExtension: { txt: "windows-1252", ".JS": false },
+      }
+    );
+
+    let manifest = readManifest(outDir);
+    expect(manifest["/index.html"].headers["content-type"]).toBe(
+      "text/html; charset=iso-8859-1"
+    );
+    expect(manifest["/"].headers["content-type"]).toBe(
+      "text/html; charset=iso-8859-1"
+    );
+    expect(manifest["/notes.txt"].headers["content-type"]).toBe(
+      "text/plain; charset=windows-1252"
+    );
+    expect(manifest["/app.js"].headers["content-type"]).toBe("text/javascript");
+
+    await generateStaticManifest(
+      clientDir,
+      outDir,
+      "_astro",
+      undefined,
+      "public, max-age=86400, must-revalidate",
+      { charset: false }
+    );
+
+    manifest = readManifest(outDir);
+    expect(manifest["/index.html"].headers["content-type"]).toBe("text/html");
+  });
+
   test("route headers do not override ETag or Content-Length", async () => {
     const clientDir = testDir();
     const outDir = testDir();
@@ -64,6 +320,7 @@ describe("generateStaticManifest", () => {
     // Content-derived values must win over route headers.
     expect(headers.etag).not.toBe("bogus");
     expect(headers["content-length"]).toBe(String("home page".length));
+    expect(headers["accept-ranges"]).toBe("bytes");
   });
 
   test("HTML files produce route alias entries with filePath", async () => {
@@ -164,7 +421,7 @@ describe("generateStaticManifest", () => {
       (k) => k.toLowerCase() === "content-type"
     );
     expect(contentTypeKeys).toEqual(["content-type"]);
-    expect(headers["content-type"]).toBe("text/html");
+    expect(headers["content-type"]).toBe("text/html; charset=utf-8");
 
     // Loading into a Headers object should also yield a single value.
     const h = new Headers(headers);
@@ -172,6 +429,268 @@ describe("generateStaticManifest", () => {
     for (const [key, value] of h as unknown as Iterable<[string, string]>) {
       if (key === "content-type") values.push(value);
     }
-    expect(values).toEqual(["text/html"]);
+    expect(values).toEqual(["text/html; charset=utf-8"]);
+  });
+});
+
+describe("generateStaticManifest precompression", () => {
+  test("emits smaller encoded siblings for compressible files", async () => {
+    const clientDir = testDir();
+    const outDir = testDir();
+
+    writeFileSync(join(clientDir, "index.html"), "<p>hello</p>".repeat(200));
+
+    await generateStaticManifest(
+      clientDir,
+      outDir,
+      "_astro",
+      undefined,
+      "public, max-age=86400, must-revalidate",
+      { precompress: ["br", "gzip"] }
+    );
+
+    const manifest = readManifest(outDir);
+    const entry = manifest["/index.html"];
+    expect(entry.headers.vary).toBe("Accept-Encoding");
+    expect(entry.encodings?.br?.filePath).toBe("index.html.br");
+    expect(entry.encodings?.gzip?.filePath).toBe("index.html.gz");
+
+    const br = entry.encodings?.br;
+    expect(br?.headers["content-encoding"]).toBe("br");
+    expect(br?.headers.etag).not.toBe(entry.headers.etag);
+    const compressed = readFileSync(join(clientDir, "index.html.br"));
+    expect(br?.headers["content-length"]).toBe(String(compressed.byteLength));
+    expect(brotliDecompressSync(compressed).toString()).toBe(
+      "<p>hello</p>".repeat(200)
+    );
+
+    // Aliases share the variants; siblings do not become entries.
+    expect(manifest["/"].encodings).toEqual(entry.encodings);
+    expect(manifest["/index.html.br"]).toBeUndefined();
+  });
+
+  test("skips incompressible types and files that would grow", async () => {
+    const clientDir = testDir();
+    const outDir = testDir();
+
+    writeFileSync(join(clientDir, "photo.png"), "x".repeat(4096));
+    writeFileSync(join(clientDir, "tiny.css"), "a{}");
+
+    await generateStaticManifest(
+      clientDir,
+      outDir,
+      "_astro",
+      undefined,
+      "public, max-age=86400, must-revalidate",
+      { precompress: ["br", "gzip"] }
+    );
+
+    const manifest = readManifest(outDir);
+    expect(manifest["/photo.png"].encodings).toBeUndefined();
+    expect(manifest["/tiny.css"].encodings).toBeUndefined();
+    expect(manifest["/tiny.css"].headers.vary).toBeUndefined();
+    expect(existsSync(join(clientDir, "photo.png.br"))).toBe(false);
+  });
+});
+
+describe("generateStaticManifest Last-Modified", () => {
+  test("uses the file mtime by default", async () => {
+    const clientDir = testDir();
+    const outDir = testDir();
+
+    const filePath = join(clientDir, "robots.txt");
+    writeFileSync(filePath, "User-agent: *");
+    const mtime = new Date("2024-06-01T12:00:00Z");
+    utimesSync(filePath, mtime, mtime);
+
+    await generateStaticManifest(
+      clientDir,
+      outDir,
+      "_astro",
+      undefined,
+      "public, max-age=86400, must-revalidate"
+    );
+
+    const manifest = readManifest(outDir);
+    expect(manifest["/robots.txt"].headers["last-modified"]).toBe(
+      mtime.toUTCString()
+    );
+  });
+
+  test("uses a fixed timestamp when provided", async () => {
+    const clientDir = testDir();
+    const outDir = testDir();
+
+    writeFileSync(join(clientDir, "index.html"), "home page");
+    const buildTime = new Date("2025-01-01T00:00:00Z");
+
+    await generateStaticManifest(
+      clientDir,
+      outDir,
+      "_astro",
+      undefined,
+      "public, max-age=86400, must-revalidate",
+      { lastModified: buildTime }
+    );
+
+    const manifest = readManifest(outDir);
+    expect(manifest["/index.html"].headers["last-modified"]).toBe(
+      "Wed, 01 Jan 2025 00:00:00 GMT"
+    );
+    expect(manifest["/"].headers["last-modified"]).toBe(
+      "Wed, 01 Jan 2025 00:00:00 GMT"
+    );
+  });
+});
+
+describe("generateStaticManifest trailingSlash and build.format", () => {
+  async function build(
+    options: Parameters<typeof generateStaticManifest>[5]
+  ): Promise<StaticManifest> {
+    const clientDir = testDir();
+    const outDir = testDir();
+
+    mkdirSync(join(clientDir, "about"), { recursive: true });
+    writeFileSync(join(clientDir, "about", "index.html"), "about page");
+    writeFileSync(join(clientDir, "docs.html"), "docs page");
+    writeFileSync(join(clientDir, "index.html"), "home page");
+
+    await generateStaticManifest(
+      clientDir,
+      outDir,
+      "_astro",
+      undefined,
+      "public, max-age=86400, must-revalidate",
+      options
+    );
+    return readManifest(outDir);
+  }
+
+  test("ignore aliases both forms", async () => {
+    const manifest = await build({ trailingSlash: "ignore" });
+    expect(manifest["/about"].filePath).toBe("about/index.html");
+    expect(manifest["/about/"].filePath).toBe("about/index.html");
+    expect(manifest["/docs"].filePath).toBe("docs.html");
+    expect(manifest["/docs/"].filePath).toBe("docs.html");
+    expect(manifest["/"].filePath).toBe("index.html");
+  });
+
+  test("never aliases only the slashless form", async () => {
+    const manifest = await build({ trailingSlash: "never" });
+    expect(manifest["/about"]).toBeDefined();
+    expect(manifest["/about/"]).toBeUndefined();
+    expect(manifest["/"]).toBeDefined();
+  });
+
+  test("always aliases only the trailing-slash form", async () => {
+    const manifest = await build({ trailingSlash: "always" });
+    expect(manifest["/about/"]).toBeDefined();
+    expect(manifest["/about"]).toBeUndefined();
+    expect(manifest["/docs/"]).toBeDefined();
+    expect(manifest["/"]).toBeDefined();
+  });
+
+  test("directory format only treats index.html files as pages", async () => {
+    const manifest = await build({
+      buildFormat: "directory",
+      trailingSlash: "never",
+    });
+    expect(manifest["/about"]).toBeDefined();
+    expect(manifest["/docs"]).toBeUndefined();
+    // The literal file stays reachable.
+    expect(manifest["/docs.html"]).toBeDefined();
+  });
+
+  test("file format only treats name.html files as pages", async () => {
+    const manifest = await build({
+      buildFormat: "file",
+      trailingSlash: "never",
+    });
+    expect(manifest["/docs"]).toBeDefined();
+    expect(manifest["/about"]).toBeUndefined();
+    expect(manifest["/"]).toBeDefined();
+  });
+});
+
+describe("generateStaticManifest header rules", () => {
+  test("applies _headers and config rules with defined precedence", async () => {
+    const clientDir = testDir();
+    const outDir = testDir();
+
+    mkdirSync(join(clientDir, "fonts"), { recursive: true });
+    writeFileSync(join(clientDir, "fonts", "inter.woff2"), "font");
+    mkdirSync(join(clientDir, "about"), { recursive: true });
+    writeFileSync(join(clientDir, "about", "index.html"), "about page");
+    writeFileSync(
+      join(clientDir, "_headers"),
+      [
+        "/fonts/*.woff2",
+        "  Access-Control-Allow-Origin: *",
+        "  Cache-Control: public, max-age=600",
+        "  Content-Length: 1",
+        "/about",
+        "  X-Robots-Tag: noindex",
+        "  X-Source: file",
+      ].join("\n")
+    );
+
+    await generateStaticManifest(
+      clientDir,
+      outDir,
+      "_astro",
+      { "/about": { "X-Source": "route" } },
+      "public, max-age=86400, must-revalidate",
+      {
+        headerRules: [
+          {
+            pattern: "/fonts/*",
+            headers: { "Cache-Control": "public, max-age=31536000" },
+          },
+        ],
+      }
+    );
+
+    const manifest = readManifest(outDir);
+    const font = manifest["/fonts/inter.woff2"].headers;
+    expect(font["access-control-allow-origin"]).toBe("*");
+    // Config rules override `_headers` rules, which override the default.
+    expect(font["cache-control"]).toBe("public, max-age=31536000");
+    // Content-derived headers always win.
+    expect(font["content-length"]).toBe("4");
+
+    // Page rules match the route; route-level headers win over rules.
+    const about = manifest["/about"].headers;
+    expect(about["x-robots-tag"]).toBe("noindex");
+    expect(about["x-source"]).toBe("route");
+
+    // The rules file itself is not served.
+    expect(manifest["/_headers"]).toBeUndefined();
+  });
+});
+
+describe("isHashedFilename", () => {
+  test("detects hex hashes after a `.` (4+ chars) or `-` (8+ chars)", () => {
+    expect(isHashedFilename("/pagefind/pagefind.a1b2c3.js")).toBe(true);
+    expect(isHashedFilename("/fonts/inter.8f9e.woff2")).toBe(true);
+    expect(isHashedFilename("/assets/index-4f3a9c2b.js")).toBe(true);
+    expect(isHashedFilename("/app.3f9d8a5d40e1.css")).toBe(true);
+  });
+
+  test("ignores words, versions, and dates", () => {
+    expect(isHashedFilename("/main-content.js")).toBe(false);
+    expect(isHashedFilename("/jquery-3.7.1.min.js")).toBe(false);
+    expect(isHashedFilename("/report-20240101.pdf")).toBe(false);
+    expect(isHashedFilename("/cafe-deadbeef.js")).toBe(false);
+    expect(isHashedFilename("/my-ComponentV2.js")).toBe(false);
+    expect(isHashedFilename("/a1b2c3.d/readme.txt")).toBe(false);
+    expect(isHashedFilename("/logo-Dark2024.svg")).toBe(false);
+    expect(isHashedFilename("/hero-Mobile01.png")).toBe(false);
+    expect(isHashedFilename("/v2-Beta1234.pdf")).toBe(false);
+    expect(isHashedFilename("/photo-be12ad.jpg")).toBe(false);
+  });
+
+  test("ignores base64url hashes", () => {
+    // Use `immutablePaths` for Vite-style names outside `/_astro/`.
+    expect(isHashedFilename("/fonts/inter-Bt3kZ9_q.woff2")).toBe(false);
   });
 });
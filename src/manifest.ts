@@ -1,17 +1,253 @@
 import { createHash } from "node:crypto";
-import { readdir, readFile, writeFile } from "node:fs/promises";
-import { join, relative } from "node:path";
+import { readdir, readFile, stat, writeFile } from "node:fs/promises";
+import { extname, join, relative } from "node:path";
+import { promisify } from "node:util";
+// Namespace import: `zstdCompress` only exists on newer Node releases, and a
+// named import of a missing export would fail at module link time.
+import * as zlib from "node:zlib";
 import { lookup } from "mrmime";
-import type { ManifestEntry, StaticManifest } from "./types.ts";
+import { compileGlob } from "./glob.ts";
+import {
+  applyHeaderRules,
+  compileHeaderRules,
+  type HeaderRule,
+  parseHeadersFile,
+} from "./headers.ts";
+import type {
+  BuildFormat,
+  ContentEncoding,
+  EncodedVariant,
+  IntegrityManifest,
+  ManifestEntry,
+  StaticManifest,
+  TrailingSlash,
+} from "./types.ts";
 
-/** Return the appropriate Cache-Control header — immutable for Vite-hashed assets, configurable otherwise. */
+/** Optional build-time behaviour for {@link generateStaticManifest}. */
+interface StaticManifestOptions {
+  /** Content codings to emit precompressed siblings for (e.g. `["br", "gzip"]`). */
+  precompress?: ContentEncoding[];
+  /**
+   * Fixed `Last-Modified` timestamp for every file. When omitted, each file's
+   * mtime is used.
+   */
+  lastModified?: Date;
+  /**
+   * Astro's `build.format`, which decides which HTML files are pages:
+   * `file` → `about.html`, `directory` → `about/index.html`, `preserve` →
+   * both. Other HTML files are only served at their literal path.
+   *
+   * @default "preserve"
+   */
+  buildFormat?: BuildFormat;
+  /**
+   * Astro's `trailingSlash`, which decides the clean-URL aliases of each
+   * page: `/about` (`never`), `/about/` (`always`), or both (`ignore`).
+   *
+   * @default "ignore"
+   */
+  trailingSlash?: TrailingSlash;
+  /**
+   * Header rules from the adapter config. Applied after the rules of a
+   * `_headers` file in the client dir, so they win on conflicts.
+   */
+  headerRules?: HeaderRule[];
+  /**
+   * Extra path patterns (see {@link compileGlob}) whose files are
+   * fingerprinted and get the immutable `Cache-Control`, like `/_astro/*`.
+   */
+  immutablePaths?: string[];
+  /**
+   * Treat files whose name carries a content hash (e.g.
+   * `pagefind.a1b2c3d4.js`) as immutable wherever they live.
+   *
+   * @default false
+   */
+  detectHashedAssets?: boolean;
+  /**
+   * Path patterns (see {@link compileGlob}) of files to leave out of the
+   * manifest, so they are never served.
+   */
+  exclude?: string[];
+  /**
+   * Serve dotfiles and files in dot-directories (e.g. `.DS_Store`,
+   * `.env.example`). `/.well-known/` is always served.
+   *
+   * @default false
+   */
+  includeDotfiles?: boolean;
+  /**
+   * Serve source maps (`.map` files).
+   *
+   * @default true
+   */
+  includeSourceMaps?: boolean;
+  /**
+   * Charset appended to textual `Content-Type`s (HTML, CSS, JS, plain text,
+   * XML, JSON, SVG). `false` leaves types as `mrmime` reports them.
+   *
+   * @default "utf-8"
+   */
+  charset?: string | false;
+  /**
+   * Per-extension charset overrides (e.g. `{ ".txt": "iso-8859-1", ".csv":
+   * false }`). Applied to any file with a known `Content-Type`.
+   */
+  charsetByExtension?: Record<string, string | false>;
+}
+
+/** Content types that are text and get a charset parameter by default. */
+const TEXTUAL_TYPE =
+  /^(?:text\/|image\/svg\+xml$|application\/(?:javascript|json|xml|manifest\+json|[\w.-]+\+(?:json|xml))$)/;
+
+/**
+ * Append a `charset` parameter to a file's content type. Per-extension
+ * overrides win over the default, which only applies to textual types.
+ */
+function withCharset(
+  contentType: string,
+  filePath: string,
+  charset: string | false,
+  charsetByExtension: Map<string, string | false>
+): string {
+  if (contentType.includes(";")) return contentType;
+  const override = charsetByExtension.get(extname(filePath).toLowerCase());
+  const value =
+    override !== undefined
+      ? override
+      : TEXTUAL_TYPE.test(contentType) && charset;
+  return value ? `${contentType}; charset=${value}` : contentType;
+}
+
+/** Whether any segment of `pathname` is hidden, except `/.well-known/`. */
+function isDotfilePath(pathname: string): boolean {
+  return pathname
+    .split("/")
+    .some((segment) => segment.startsWith(".") && segment !== ".well-known");
+}
+
+/** Cache-Control for fingerprinted files whose URL changes with their content. */
+const IMMUTABLE_CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+/**
+ * A lowercase hex content hash right before the final extension: 4+ chars
+ * after a `.` or 8+ after a `-`, mixing letters and digits so words
+ * (`main-content.js`) and version or date stamps (`report-20240101.pdf`)
+ * are not mistaken for hashes. Base64url hashes (Vite's format) are not
+ * detected: they can't be told apart from names like `logo-Dark2024.svg`.
+ */
+const HASHED_FILENAME =
+  /(?:\.(?=[0-9a-f]*[a-f])(?=[0-9a-f]*\d)[0-9a-f]{4,}|-(?=[0-9a-f]*[a-f])(?=[0-9a-f]*\d)[0-9a-f]{8,})\.[a-z0-9]+$/;
+
+/** Whether a file name carries a content hash (see {@link HASHED_FILENAME}). */
+export function isHashedFilename(pathname: string): boolean {
+  return HASHED_FILENAME.test(pathname.slice(pathname.lastIndexOf("/") + 1));
+}
+
+/** Netlify-style header rules file, read from the client dir root and not served. */
+const HEADERS_FILE = "_headers";
+
+/** File extension appended to each precompressed sibling. */
+const ENCODING_EXTENSIONS: Record<ContentEncoding, string> = {
+  br: ".br",
+  zstd: ".zst",
+  gzip: ".gz",
+};
+
+/** Content types worth compressing — already-compressed media is skipped. */
+const COMPRESSIBLE_TYPE =
+  /^(?:text\/|image\/svg\+xml|font\/(?:ttf|otf)|application\/(?:javascript|json|xml|wasm|manifest\+json|[\w.-]+\+(?:json|xml)))/;
+
+const brotliCompress = promisify(zlib.brotliCompress);
+const gzip = promisify(zlib.gzip);
+
+/** Whether the running Node release ships zstd support (22.15+ / 23.8+). */
+export function isZstdSupported(): boolean {
+  return typeof zlib.zstdCompress === "function";
+}
+
+/** Compress `content` with the given coding at maximum (build-time) effort. */
+function compress(content: Buffer, encoding: ContentEncoding): Promise<Buffer> {
+  switch (encoding) {
+    case "br":
+      return brotliCompress(content, {
+        params: {
+          [zlib.constants.BROTLI_PARAM_QUALITY]:
+            zlib.constants.BROTLI_MAX_QUALITY,
+          [zlib.constants.BROTLI_PARAM_SIZE_HINT]: content.byteLength,
+        },
+      });
+    case "zstd":
+      return promisify(zlib.zstdCompress)(content, {});
+    case "gzip":
+      return gzip(content, { level: zlib.constants.Z_BEST_COMPRESSION });
+  }
+}
+
+/** Subresource Integrity digest (`sha384-<base64>`) of a file's content. */
+function integrityDigest(content: Uint8Array): string {
+  return `sha384-${createHash("sha384").update(content).digest("base64")}`;
+}
+
+/** Short content hash used for ETags. */
+function hashContent(content: Uint8Array): string {
+  return createHash("sha256").update(content).digest("hex").slice(0, 16);
+}
+
+/**
+ * Write precompressed siblings of a file and return their manifest variants.
+ * Encodings that do not shrink the file are skipped.
+ */
+async function precompressFile(
+  filePath: string,
+  relativePath: string,
+  content: Buffer,
+  encodings: ContentEncoding[]
+): Promise<ManifestEntry["encodings"]> {
+  const variants: Partial<Record<ContentEncoding, EncodedVariant>> = {};
+  let found = false;
+
+  await Promise.all(
+    encodings.map(async (encoding) => {
+      const compressed = await compress(content, encoding);
+      if (compressed.byteLength >= content.byteLength) return;
+
+      const extension = ENCODING_EXTENSIONS[encoding];
+      await writeFile(`${filePath}${extension}`, compressed);
+      variants[encoding] = {
+        headers: {
+          "content-encoding": encoding,
+          "content-length": String(compressed.byteLength),
+          etag: `"${hashContent(compressed)}"`,
+        },
+        filePath: `${relativePath}${extension}`,
+      };
+      found = true;
+    })
+  );
+
+  return found ? variants : undefined;
+}
+
+/**
+ * Return the appropriate Cache-Control header — immutable for Vite-hashed
+ * assets and other fingerprinted files, configurable otherwise. `pathname` is relative to the client dir,
+ * so it never carries Astro's `base` (the server strips it before lookup).
+ */
 function getCacheControl(
   pathname: string,
   assetsPrefix: string,
-  staticCacheControl: string
+  staticCacheControl: string,
+  immutablePaths: RegExp[],
+  detectHashedAssets: boolean
 ): string {
-  if (pathname.startsWith(`/${assetsPrefix}/`)) {
-    return "public, max-age=31536000, immutable";
+  const prefix = assetsPrefix.replace(/^\/+|\/+$/g, "");
+  if (
+    pathname.startsWith(`/${prefix}/`) ||
+    immutablePaths.some((pattern) => pattern.test(pathname)) ||
+    (detectHashedAssets && isHashedFilename(pathname))
+  ) {
+    return IMMUTABLE_CACHE_CONTROL;
   }
   return staticCacheControl;
 }
@@ -56,6 +292,44 @@ function filePathToRoute(filePath: string): string {
   return filePath;
 }
 
+/**
+ * Derive the page route for an HTML file under the given `build.format`, or
+ * `undefined` when the file is not a page in that format. The root
+ * `/index.html` is a page in every format.
+ */
+function pageRoute(pathname: string, format: BuildFormat): string | undefined {
+  if (pathname === "/index.html") return "/";
+  if (pathname.endsWith("/index.html")) {
+    return format === "file" ? undefined : filePathToRoute(pathname);
+  }
+  if (pathname.endsWith(".html")) {
+    return format === "directory" ? undefined : filePathToRoute(pathname);
+  }
+  return undefined;
+}
+
+/**
+ * Clean-URL aliases for a static file under the given `trailingSlash`
+ * setting, e.g. `/about/index.html` → `["/about", "/about/"]` for `ignore`.
+ */
+function pageAliases(
+  pathname: string,
+  format: BuildFormat,
+  trailingSlash: TrailingSlash
+): string[] {
+  const route = pageRoute(pathname, format);
+  if (route === undefined) return [];
+  if (route === "/") return ["/"];
+  switch (trailingSlash) {
+    case "always":
+      return [`${route}/`];
+    case "never":
+      return [route];
+    case "ignore":
+      return [route, `${route}/`];
+  }
+}
+
 /**
  * Walk the client build directory and write a static manifest with pre-computed
  * headers for each file. Must use `node:fs/promises` since build hooks run under Node.
@@ -65,18 +339,45 @@ export async function generateStaticManifest(
   outDir: string,
   assetsPrefix: string,
   routeHeaders: Record<string, Record<string, string>> | undefined,
-  staticCacheControl: string
+  staticCacheControl: string,
+  options: StaticManifestOptions = {}
 ): Promise<void> {
-  const files = await walk(clientDir);
+  const precompress = options.precompress ?? [];
+  const headersFilePath = join(clientDir, HEADERS_FILE);
+  const exclude = (options.exclude ?? []).map(compileGlob);
+  const isExcluded = (pathname: string) =>
+    (!options.includeDotfiles && isDotfilePath(pathname)) ||
+    (options.includeSourceMaps === false && pathname.endsWith(".map")) ||
+    exclude.some((pattern) => pattern.test(pathname));
+  const files = (await walk(clientDir)).filter(
+    (f) => f !== headersFilePath && !isExcluded(`/${relative(clientDir, f)}`)
+  );
   const manifest: StaticManifest = {};
 
+  // `_headers` rules apply first so adapter-config rules override them.
+  const headerRules = compileHeaderRules([
+    ...parseHeadersFile(
+      await readFile(headersFilePath, "utf-8").catch(() => "")
+    ),
+    ...(options.headerRules ?? []),
+  ]);
+  const immutablePaths = (options.immutablePaths ?? []).map(compileGlob);
+  const charset = options.charset ?? "utf-8";
+  // Normalize keys to `extname` form (`.txt`), accepting `txt` and `.TXT`.
+  const charsetByExtension = new Map(
+    Object.entries(options.charsetByExtension ?? {}).map(([ext, value]) => [
+      `.${ext.replace(/^\./, "").toLowerCase()}`,
+      value,
+    ])
+  );
+
   const entries = await Promise.all(
     files.map(async (filePath) => {
-      const content = await readFile(filePath);
-      const hash = createHash("sha256")
-        .update(content)
-        .digest("hex")
-        .slice(0, 16);
+      const [content, stats] = await Promise.all([
+        readFile(filePath),
+        stat(filePath),
+      ]);
+      const hash = hashContent(content);
       const pathname = `/${relative(clientDir, filePath)}`;
       const contentType = lookup(filePath);
 
@@ -86,14 +387,25 @@ export async function generateStaticManifest(
       // which is what produced duplicate headers on the wire previously.
       const h = new Headers();
 
-      // Adapter default (can be overridden by route-level headers).
+      // Adapter default (can be overridden by header rules and route-level headers).
       h.set(
         "Cache-Control",
-        getCacheControl(pathname, assetsPrefix, staticCacheControl)
+        getCacheControl(
+          pathname,
+          assetsPrefix,
+          staticCacheControl,
+          immutablePaths,
+          options.detectHashedAssets ?? false
+        )
       );
 
-      // Route-level headers (e.g. CSP, CORS) override defaults.
-      const routeEntry = routeHeaders?.[filePathToRoute(pathname)];
+      // Path-pattern header rules, matched against the file path and its
+      // page route (e.g. `/about/index.html` and `/about`).
+      const route = filePathToRoute(pathname);
+      applyHeaderRules(h, headerRules, [pathname, route]);
+
+      // Route-level headers (e.g. CSP, CORS) override defaults and rules.
+      const routeEntry = routeHeaders?.[route];
       if (routeEntry) {
         for (const [key, value] of Object.entries(routeEntry)) {
           h.set(key, value);
@@ -103,7 +415,36 @@ export async function generateStaticManifest(
       // Content-derived headers always win over route-level headers.
       h.set("ETag", `"${hash}"`);
       h.set("Content-Length", String(content.byteLength));
-      if (contentType) h.set("Content-Type", contentType);
+      h.set("Accept-Ranges", "bytes");
+      h.set(
+        "Last-Modified",
+        (options.lastModified ?? stats.mtime).toUTCString()
+      );
+      if (contentType) {
+        h.set(
+          "Content-Type",
+          withCharset(contentType, filePath, charset, charsetByExtension)
+        );
+      }
+
+      // Precompressed siblings. Files that already carry a coding extension
+      // (e.g. user-supplied `.br` files in `public/`) are left alone.
+      const isEncodedFile = Object.values(ENCODING_EXTENSIONS).some((ext) =>
+        filePath.endsWith(ext)
+      );
+      const encodings =
+        precompress.length > 0 &&
+        !isEncodedFile &&
+        contentType &&
+        COMPRESSIBLE_TYPE.test(contentType)
+          ? await precompressFile(
+              filePath,
+              relative(clientDir, filePath),
+              content,
+              precompress
+            )
+          : undefined;
+      if (encodings) h.append("Vary", "Accept-Encoding");
 
       // Serialize to a plain object. Headers iteration yields lowercase keys,
       // so downstream reads should use lowercase names (e.g. `headers.etag`).
@@ -113,21 +454,35 @@ export async function generateStaticManifest(
         headers,
         filePath: relative(clientDir, filePath),
       };
-      return [pathname, entry] as const;
+      if (encodings) entry.encodings = encodings;
+      return [pathname, entry, integrityDigest(content)] as const;
     })
   );
 
-  for (const [pathname, entry] of entries) {
+  const buildFormat = options.buildFormat ?? "preserve";
+  const trailingSlash = options.trailingSlash ?? "ignore";
+
+  const integrity: IntegrityManifest = {};
+
+  for (const [pathname, entry, digest] of entries) {
     manifest[pathname] = entry;
+    integrity[pathname] = digest;
 
-    // Add a route alias for HTML files so clean URLs (e.g. /about) resolve
-    // to the static file (e.g. /about/index.html) without falling through to SSR.
-    const route = filePathToRoute(pathname);
-    if (route !== pathname) {
-      manifest[route] = { ...entry, filePath: pathname.slice(1) };
+    // Add route aliases for HTML pages so clean URLs (e.g. /about or /about/)
+    // resolve to the static file (e.g. /about/index.html) without falling
+    // through to SSR. The non-canonical form is redirected by the server.
+    for (const alias of pageAliases(pathname, buildFormat, trailingSlash)) {
+      manifest[alias] = { ...entry, filePath: pathname.slice(1) };
     }
   }
 
   const manifestPath = join(outDir, "static-manifest.json");
   await writeFile(manifestPath, JSON.stringify(manifest));
+
+  // SRI digests live in their own file so the static manifest stays lean;
+  // keyed by file path only, since integrity applies to the file itself.
+  await writeFile(
+    join(outDir, "integrity-manifest.json"),
+    JSON.stringify(integrity)
+  );
 }
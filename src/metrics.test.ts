@@ -0,0 +1,159 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createMetrics,
+  createMetricsHandler,
+  resolveMetricsPort,
+} from "./metrics.ts";
+import type { ISRStats } from "./types.ts";
+
+function response(cache?: string, status = 200) {
+  return new Response(null, {
+    status,
+    headers: cache ? { "x-astro-cache": cache } : {},
+  });
+}
+
+const isrStats: ISRStats = {
+  currentBytes: 1024,
+  maxByteSize: 4096,
+  memoryEntries: 3,
+  diskEntries: 5,
+  evictions: 2,
+  diskLoads: 1,
+  pendingWrites: 0,
+  revalidations: 4,
+  coalescedWaits: 6,
+  inflightRenders: 1,
+};
+
+describe("createMetrics", () => {
+  test("counts requests by cache status and status code", () => {
+    const metrics = createMetrics();
+    metrics.observe(response("HIT"), 1);
+    metrics.observe(response("HIT"), 1);
+    metrics.observe(response(undefined, 404), 1);
+
+    const text = metrics.render();
+    expect(text).toContain("# TYPE astro_bun_http_requests_total counter");
+    expect(text).toContain(
+      'astro_bun_http_requests_total{cache="HIT",status="200"} 2'
+    );
+    expect(text).toContain(
+      'astro_bun_http_requests_total{cache="none",status="404"} 1'
+    );
+  });
+
+  test("records durations in cumulative histogram buckets", () => {
+    const metrics = createMetrics();
+    metrics.observe(response("MISS"), 250);
+    metrics.observe(response("MISS"), 500);
+
+    const text = metrics.render();
+    const name = "astro_bun_http_request_duration_seconds";
+    expect(text).toContain(`${name}_bucket{cache="MISS",le="0.1"} 0`);
+    expect(text).toContain(`${name}_bucket{cache="MISS",le="0.25"} 1`);
+    expect(text).toContain(`${name}_bucket{cache="MISS",le="0.5"} 2`);
+    expect(text).toContain(`${name}_bucket{cache="MISS",le="+Inf"} 2`);
+    expect(text).toContain(`${name}_sum{cache="MISS"} 0.75`);
+    expect(text).toContain(`${name}_count{cache="MISS"} 2`);
+  });
+
+  test("omits ISR metrics without ISR", () => {
+    expect(createMetrics().render()).not.toContain("astro_bun_isr_");
+  });
+
+  test("reads ISR stats on every render", () => {
+    let stats = isrStats;
+    const metrics = createMetrics(() => stats);
+
+    const text = metrics.render();
+    expect(text).toContain("# TYPE astro_bun_isr_memory_bytes gauge");
+    expect(text).toContain("astro_bun_isr_memory_bytes 1024");
+    expect(text).toContain("astro_bun_isr_disk_entries 5");
+    expect(text).toContain("# TYPE astro_bun_isr_evictions_total counter");
+    expect(text).toContain("astro_bun_isr_coalesced_waits_total 6");
+
+    stats = { ...isrStats, revalidations: 9 };
+    expect(metrics.render()).toContain("astro_bun_isr_revalidations_total 9");
+  });
+});
+
+describe("createMetricsHandler", () => {
+  const metrics = createMetrics();
+
+  test("ignores other paths and methods", () => {
+    const match = createMetricsHandler({
+      path: "/metrics",
+      token: undefined,
+      metrics,
+    });
+    const get = new Request("http://localhost/metrics");
+    expect(match(get, "/")).toBeUndefined();
+    expect(
+      match(
+        new Request("http://localhost/metrics", { method: "POST" }),
+        "/metrics"
+      )
+    ).toBeUndefined();
+  });
+
+  test("serves the Prometheus text format", async () => {
+    const match = createMetricsHandler({
+      path: "/metrics",
+      token: undefined,
+      metrics,
+    });
+    const res = match(new Request("http://localhost/metrics"), "/metrics");
+    expect(res?.status).toBe(200);
+    expect(res?.headers.get("content-type")).toBe(
+      "text/plain; version=0.0.4; charset=utf-8"
+    );
+    expect(res?.headers.get("cache-control")).toBe("no-store");
+    expect(await res?.text()).toContain("astro_bun_http_requests_total");
+  });
+
+  test("requires the bearer token when configured", async () => {
+    const match = createMetricsHandler({
+      path: "/metrics",
+      token: "secret",
+      metrics,
+    });
+    const scrape = (authorization?: string) =>
+      match(
+        new Request("http://localhost/metrics", {
+          headers: authorization ? { authorization } : {},
+        }),
+        "/metrics"
+      );
+
+    expect(scrape()?.status).toBe(401);
+    expect(scrape()?.headers.get("www-authenticate")).toBe("Bearer");
+    expect(scrape("Bearer wrong")?.status).toBe(401);
+    expect(scrape("secret")?.status).toBe(401);
+    expect(scrape("Bearer secret")?.status).toBe(200);
+  });
+});
+
+describe("resolveMetricsPort", () => {
+  test("serves from the main server without a port", () => {
+    expect(resolveMetricsPort(undefined, {}, undefined)).toBe(0);
+  });
+
+  test("prefers METRICS_PORT over the config", () => {
+    expect(resolveMetricsPort(9091, {}, undefined)).toBe(9091);
+    expect(resolveMetricsPort(9091, { METRICS_PORT: "9100" }, undefined)).toBe(
+      9100
+    );
+  });
+
+  test("gives each cluster worker its own port", () => {
+    expect(resolveMetricsPort(9091, {}, 0)).toBe(9091);
+    expect(resolveMetricsPort(9091, { METRICS_PORT: "9100" }, 3)).toBe(9103);
+  });
+
+  test("requires a port in cluster mode", () => {
+    expect(() => resolveMetricsPort(undefined, {}, 1)).toThrow(
+      "Cluster mode requires a metrics port"
+    );
+  });
+});
@@ -0,0 +1,254 @@
+import { tokensMatch } from "./auth.ts";
+import { CACHE_HEADER } from "./constants.ts";
+import type { ISRStats } from "./types.ts";
+
+/** Prometheus text exposition format content type. */
+const CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/** Request duration histogram buckets, in seconds. */
+const DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+/** Escape a label value (backslash, double quote, newline). */
+function escapeLabel(value: string): string {
+  return value.replace(/[\\"]/g, "\\$&").replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabel(value)}"`
+  );
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+/** Latency histogram state for one cache status. */
+interface Histogram {
+  /** Cumulative counts, one per bucket in {@link DURATION_BUCKETS}. */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/** Server request metrics, rendered in the Prometheus text format. */
+export interface Metrics {
+  /**
+   * Record a served request. `duration` is in milliseconds, as measured
+   * around the request handler.
+   */
+  observe(response: Response, duration: number): void;
+  /** Render every metric in the Prometheus text exposition format. */
+  render(): string;
+}
+
+/**
+ * Create the metrics registry. Requests are counted by `x-astro-cache`
+ * status (`none` for responses without one) and status code, and timed by
+ * cache status. When `isrStats` is given, ISR cache gauges and counters are
+ * read from it on every render.
+ */
+export function createMetrics(isrStats?: () => ISRStats): Metrics {
+  const requests = new Map<string, number>();
+  const durations = new Map<string, Histogram>();
+
+  return {
+    observe(response, duration) {
+      const cache = response.headers.get(CACHE_HEADER) ?? "none";
+      const key = formatLabels({ cache, status: String(response.status) });
+      requests.set(key, (requests.get(key) ?? 0) + 1);
+
+      let histogram = durations.get(cache);
+      if (!histogram) {
+        histogram = {
+          buckets: DURATION_BUCKETS.map(() => 0),
+          sum: 0,
+          count: 0,
+        };
+        durations.set(cache, histogram);
+      }
+      const seconds = duration / 1000;
+      DURATION_BUCKETS.forEach((bound, i) => {
+        if (seconds <= bound) histogram.buckets[i]++;
+      });
+      histogram.sum += seconds;
+      histogram.count++;
+    },
+
+    render() {
+      const lines: string[] = [];
+      const metric = (
+        name: string,
+        type: "counter" | "gauge" | "histogram",
+        help: string
+      ) => {
+        lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+      };
+
+      metric(
+        "astro_bun_http_requests_total",
+        "counter",
+        "HTTP requests served, by cache status and status code."
+      );
+      for (const [labels, count] of requests) {
+        lines.push(`astro_bun_http_requests_total${labels} ${count}`);
+      }
+
+      metric(
+        "astro_bun_http_request_duration_seconds",
+        "histogram",
+        "Time until the response was returned, by cache status."
+      );
+      for (const [cache, histogram] of durations) {
+        const name = "astro_bun_http_request_duration_seconds";
+        DURATION_BUCKETS.forEach((bound, i) => {
+          const labels = formatLabels({ cache, le: String(bound) });
+          lines.push(`${name}_bucket${labels} ${histogram.buckets[i]}`);
+        });
+        const inf = formatLabels({ cache, le: "+Inf" });
+        const labels = formatLabels({ cache });
+        lines.push(
+          `${name}_bucket${inf} ${histogram.count}`,
+          `${name}_sum${labels} ${histogram.sum}`,
+          `${name}_count${labels} ${histogram.count}`
+        );
+      }
+
+      if (isrStats) {
+        const stats = isrStats();
+        const isr: [keyof ISRStats, "counter" | "gauge", string, string][] = [
+          ["currentBytes", "gauge", "memory_bytes", "Bytes held in memory."],
+          [
+            "maxByteSize",
+            "gauge",
+            "memory_max_bytes",
+            "In-memory byte budget.",
+          ],
+          [
+            "memoryEntries",
+            "gauge",
+            "memory_entries",
+            "Entries held in memory.",
+          ],
+          [
+            "diskEntries",
+            "gauge",
+            "disk_entries",
+            "Entries known to the cache, including those only on disk.",
+          ],
+          [
+            "pendingWrites",
+            "gauge",
+            "pending_writes",
+            "Disk writes not yet finished.",
+          ],
+          [
+            "inflightRenders",
+            "gauge",
+            "inflight_renders",
+            "Renders currently in flight for cache misses.",
+          ],
+          [
+            "evictions",
+            "counter",
+            "evictions_total",
+            "Entries dropped from memory to stay within budget.",
+          ],
+          [
+            "diskLoads",
+            "counter",
+            "disk_loads_total",
+            "Entries read back from disk into memory.",
+          ],
+          [
+            "revalidations",
+            "counter",
+            "revalidations_total",
+            "Background revalidations started for stale entries.",
+          ],
+          [
+            "coalescedWaits",
+            "counter",
+            "coalesced_waits_total",
+            "Requests that waited on another request's render of the same key.",
+          ],
+        ];
+        for (const [field, type, suffix, help] of isr) {
+          const name = `astro_bun_isr_${suffix}`;
+          metric(name, type, help);
+          lines.push(`${name} ${stats[field]}`);
+        }
+      }
+
+      return `${lines.join("\n")}\n`;
+    },
+  };
+}
+
+/**
+ * Resolve the port of the separate metrics listener, or `0` to serve
+ * metrics from the main server. `METRICS_PORT` overrides the config. Cluster
+ * workers each listen on `port + workerId` so every worker can be scraped;
+ * a shared endpoint would answer each scrape from a random worker, so
+ * cluster mode requires a port.
+ */
+export function resolveMetricsPort(
+  config: number | undefined,
+  env: Record<string, string | undefined>,
+  workerId: number | undefined
+): number {
+  const port = Number(env.METRICS_PORT || config || 0);
+  if (workerId === undefined) return port;
+  if (!port) {
+    throw new Error(
+      "Cluster mode requires a metrics port (`metrics.port` or METRICS_PORT)"
+    );
+  }
+  return port + workerId;
+}
+
+/** Options for {@link createMetricsHandler}. */
+interface MetricsHandlerOptions {
+  path: string;
+  /** Bearer token required to scrape; open when unset. */
+  token: string | undefined;
+  metrics: Metrics;
+}
+
+/**
+ * Build a handler for the metrics path. Returns a function that yields the
+ * metrics `Response` for GET/HEAD requests to `path` (or `401` without the
+ * bearer token, when one is configured), or `undefined` so the request
+ * continues to the static/SSR lookup.
+ */
+export function createMetricsHandler(
+  options: MetricsHandlerOptions
+): (request: Request, pathname: string) => Response | undefined {
+  const { path, token, metrics } = options;
+
+  return (request, pathname) => {
+    if (pathname !== path) return undefined;
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      return undefined;
+    }
+
+    if (token) {
+      const header = request.headers.get("authorization");
+      const provided = header?.startsWith("Bearer ")
+        ? header.slice("Bearer ".length)
+        : null;
+      if (!tokensMatch(provided, token)) {
+        return new Response("Unauthorized", {
+          status: 401,
+          headers: {
+            "WWW-Authenticate": "Bearer",
+            "Cache-Control": "no-store",
+          },
+        });
+      }
+    }
+
+    return new Response(request.method === "HEAD" ? null : metrics.render(), {
+      headers: { "Content-Type": CONTENT_TYPE, "Cache-Control": "no-store" },
+    });
+  };
+}
@@ -0,0 +1,169 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import {
+  createOTLPExporter,
+  encodeSpans,
+  parseOTLPHeaders,
+  resolveOTLPOptions,
+} from "./otlp.ts";
+import type { FinishedSpan } from "./tracing.ts";
+import type { TracingOptions } from "./types.ts";
+
+const config: TracingOptions = {
+  endpoint: "http://localhost:4318/v1/traces",
+  headers: { "x-team": "web" },
+  serviceName: "astro",
+  sampleRate: 1,
+};
+
+const span: FinishedSpan = {
+  name: "GET",
+  kind: "server",
+  context: {
+    traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+    spanId: "00f067aa0ba902b7",
+    sampled: true,
+  },
+  parentSpanId: undefined,
+  startTime: 1_700_000_000_000.5,
+  endTime: 1_700_000_000_012.25,
+  attributes: { "url.path": "/", "http.response.status_code": 200, ok: true },
+  error: undefined,
+};
+
+describe("parseOTLPHeaders", () => {
+  test("parses percent-encoded pairs", () => {
+    expect(parseOTLPHeaders("api-key=a%20b, x-tenant=acme,invalid")).toEqual({
+      "api-key": "a b",
+      "x-tenant": "acme",
+    });
+  });
+});
+
+describe("resolveOTLPOptions", () => {
+  test("uses the config without env vars", () => {
+    expect(resolveOTLPOptions(config, {})).toEqual({
+      url: "http://localhost:4318/v1/traces",
+      headers: { "x-team": "web" },
+      serviceName: "astro",
+    });
+  });
+
+  test("appends /v1/traces to OTEL_EXPORTER_OTLP_ENDPOINT", () => {
+    const options = resolveOTLPOptions(config, {
+      OTEL_EXPORTER_OTLP_ENDPOINT: "https://otel.example.com/",
+      OTEL_EXPORTER_OTLP_HEADERS: "authorization=Bearer%20t",
+      OTEL_SERVICE_NAME: "shop",
+    });
+    expect(options).toEqual({
+      url: "https://otel.example.com/v1/traces",
+      headers: { "x-team": "web", authorization: "Bearer t" },
+      serviceName: "shop",
+    });
+  });
+
+  test("prefers OTEL_EXPORTER_OTLP_TRACES_ENDPOINT", () => {
+    const options = resolveOTLPOptions(config, {
+      OTEL_EXPORTER_OTLP_ENDPOINT: "https://otel.example.com",
+      OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: "https://traces.example.com/t",
+    });
+    expect(options.url).toBe("https://traces.example.com/t");
+  });
+});
+
+describe("encodeSpans", () => {
+  test("encodes OTLP/JSON", () => {
+    const body = encodeSpans(
+      [
+        span,
+        {
+          ...span,
+          kind: "internal",
+          parentSpanId: "b7ad6b7169203331",
+          error: "boom",
+        },
+      ],
+      "astro"
+    );
+    expect(body).toEqual({
+      resourceSpans: [
+        {
+          resource: {
+            attributes: [
+              { key: "service.name", value: { stringValue: "astro" } },
+            ],
+          },
+          scopeSpans: [
+            {
+              scope: { name: "@wyattjoh/astro-bun-adapter" },
+              spans: [
+                {
+                  traceId: span.context.traceId,
+                  spanId: span.context.spanId,
+                  name: "GET",
+                  kind: 2,
+                  startTimeUnixNano: "1700000000000500000",
+                  endTimeUnixNano: "1700000000012250000",
+                  attributes: [
+                    { key: "url.path", value: { stringValue: "/" } },
+                    {
+                      key: "http.response.status_code",
+                      value: { intValue: "200" },
+                    },
+                    { key: "ok", value: { boolValue: true } },
+                  ],
+                  status: { code: 0 },
+                },
+                expect.objectContaining({
+                  parentSpanId: "b7ad6b7169203331",
+                  kind: 1,
+                  status: { code: 2, message: "boom" },
+                }),
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
+
+describe("createOTLPExporter", () => {
+  const received: { headers: Headers; body: unknown }[] = [];
+  // Stand-in for an OpenTelemetry collector's OTLP/HTTP receiver.
+  const collector = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      received.push({ headers: request.headers, body: await request.json() });
+      return Response.json({});
+    },
+  });
+  afterAll(() => collector.stop(true));
+
+  test("posts queued spans on flush", async () => {
+    const exporter = createOTLPExporter({
+      url: `http://localhost:${collector.port}/v1/traces`,
+      headers: { authorization: "Bearer t" },
+      serviceName: "astro",
+    });
+    exporter.add(span);
+    exporter.add({ ...span, name: "astro.render" });
+    await exporter.flush();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].headers.get("authorization")).toBe("Bearer t");
+    expect(received[0].headers.get("content-type")).toBe("application/json");
+    expect(received[0].body).toEqual(
+      encodeSpans([span, { ...span, name: "astro.render" }], "astro")
+    );
+  });
+
+  test("drops spans when the collector is unreachable", async () => {
+    const exporter = createOTLPExporter({
+      url: "http://localhost:1/v1/traces",
+      headers: {},
+      serviceName: "astro",
+    });
+    exporter.add(span);
+    await expect(exporter.flush()).resolves.toBeUndefined();
+  });
+});
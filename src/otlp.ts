@@ -0,0 +1,178 @@
+import debug from "debug";
+import type { AttributeValue, FinishedSpan, SpanExporter } from "./tracing.ts";
+import type { TracingOptions } from "./types.ts";
+
+const log = debug("@wyattjoh/astro-bun-adapter:tracing");
+
+/** Export queued spans at least this often (milliseconds). */
+const EXPORT_INTERVAL_MS = 5000;
+/** Export as soon as this many spans are queued. */
+const MAX_BATCH_SIZE = 512;
+/** Give up on an export request after this long (milliseconds). */
+const EXPORT_TIMEOUT_MS = 10_000;
+
+/** Resolved OTLP/HTTP exporter settings. */
+export interface OTLPExporterOptions {
+  /** Full traces URL, e.g. `http://localhost:4318/v1/traces`. */
+  url: string;
+  headers: Record<string, string>;
+  serviceName: string;
+}
+
+/**
+ * Parse `OTEL_EXPORTER_OTLP_HEADERS` (`key1=value1,key2=value2`, values
+ * percent-encoded).
+ */
+export function parseOTLPHeaders(value: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of value.split(",")) {
+    const separator = pair.indexOf("=");
+    if (separator <= 0) continue;
+    const key = pair.slice(0, separator).trim();
+    const raw = pair.slice(separator + 1).trim();
+    try {
+      headers[key] = decodeURIComponent(raw);
+    } catch {
+      headers[key] = raw;
+    }
+  }
+  return headers;
+}
+
+/**
+ * Resolve exporter settings. The standard OpenTelemetry variables override
+ * the config: `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT` (full URL) or
+ * `OTEL_EXPORTER_OTLP_ENDPOINT` (base URL, `/v1/traces` is appended),
+ * `OTEL_EXPORTER_OTLP_HEADERS` (merged over the configured headers), and
+ * `OTEL_SERVICE_NAME`.
+ */
+export function resolveOTLPOptions(
+  config: TracingOptions,
+  env: Record<string, string | undefined>
+): OTLPExporterOptions {
+  const base = env.OTEL_EXPORTER_OTLP_ENDPOINT;
+  return {
+    url:
+      env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ||
+      (base ? `${base.replace(/\/+$/, "")}/v1/traces` : config.endpoint),
+    headers: {
+      ...config.headers,
+      ...parseOTLPHeaders(env.OTEL_EXPORTER_OTLP_HEADERS ?? ""),
+    },
+    serviceName: env.OTEL_SERVICE_NAME || config.serviceName,
+  };
+}
+
+/** Convert an attribute to an OTLP `AnyValue`. */
+function encodeValue(value: AttributeValue): Record<string, unknown> {
+  if (typeof value === "string") return { stringValue: value };
+  if (typeof value === "boolean") return { boolValue: value };
+  return Number.isInteger(value)
+    ? { intValue: String(value) }
+    : { doubleValue: value };
+}
+
+function encodeAttributes(attributes: Record<string, AttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: encodeValue(value),
+  }));
+}
+
+/** Milliseconds since the epoch as an OTLP nanosecond timestamp string. */
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+}
+
+/** Build an OTLP/JSON `ExportTraceServiceRequest` body. */
+export function encodeSpans(
+  spans: FinishedSpan[],
+  serviceName: string
+): Record<string, unknown> {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: encodeAttributes({ "service.name": serviceName }),
+        },
+        scopeSpans: [
+          {
+            scope: { name: "@wyattjoh/astro-bun-adapter" },
+            spans: spans.map((span) => ({
+              traceId: span.context.traceId,
+              spanId: span.context.spanId,
+              ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+              name: span.name,
+              // SPAN_KIND_INTERNAL = 1, SPAN_KIND_SERVER = 2
+              kind: span.kind === "server" ? 2 : 1,
+              startTimeUnixNano: toUnixNano(span.startTime),
+              endTimeUnixNano: toUnixNano(span.endTime),
+              attributes: encodeAttributes(span.attributes),
+              // STATUS_CODE_UNSET = 0, STATUS_CODE_ERROR = 2
+              status:
+                span.error === undefined
+                  ? { code: 0 }
+                  : { code: 2, message: span.error },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Create an exporter that batches spans and POSTs them as OTLP/JSON every
+ * few seconds, or sooner once a batch fills up. Failed exports are logged
+ * and dropped; spans are never retried.
+ */
+export function createOTLPExporter(options: OTLPExporterOptions): SpanExporter {
+  let queue: FinishedSpan[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const inflight = new Set<Promise<void>>();
+
+  const send = async (spans: FinishedSpan[]) => {
+    try {
+      const response = await fetch(options.url, {
+        method: "POST",
+        headers: { ...options.headers, "Content-Type": "application/json" },
+        body: JSON.stringify(encodeSpans(spans, options.serviceName)),
+        signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        log(`OTLP export failed: ${response.status} ${response.statusText}`);
+      }
+      await response.body?.cancel();
+    } catch (err) {
+      log(`OTLP export failed: ${err}`);
+    }
+  };
+
+  const exportQueue = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    while (queue.length > 0) {
+      const batch = queue.slice(0, MAX_BATCH_SIZE);
+      queue = queue.slice(MAX_BATCH_SIZE);
+      const pending = send(batch).finally(() => inflight.delete(pending));
+      inflight.add(pending);
+    }
+  };
+
+  return {
+    add(span) {
+      queue.push(span);
+      if (queue.length >= MAX_BATCH_SIZE) {
+        exportQueue();
+      } else if (!timer) {
+        timer = setTimeout(exportQueue, EXPORT_INTERVAL_MS);
+        // Don't keep the process alive just to export.
+        timer.unref();
+      }
+    },
+    async flush() {
+      exportQueue();
+      await Promise.all(inflight);
+    },
+  };
+}
@@ -0,0 +1,162 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createProxyTrust,
+  parseForwarded,
+  resolveForwarded,
+  resolveTrustedProxies,
+} from "./proxy.ts";
+
+function request(headers: Record<string, string>) {
+  return new Request("http://localhost:4321/page?x=1", { headers });
+}
+
+describe("resolveTrustedProxies", () => {
+  test("uses the config without TRUSTED_PROXIES", () => {
+    expect(resolveTrustedProxies(false, {})).toBeUndefined();
+    expect(resolveTrustedProxies(1, {})).toBe(1);
+    expect(resolveTrustedProxies(["10.0.0.0/8"], {})).toEqual(["10.0.0.0/8"]);
+  });
+
+  test("TRUSTED_PROXIES overrides with a hop count or a list", () => {
+    expect(resolveTrustedProxies(false, { TRUSTED_PROXIES: "2" })).toBe(2);
+    expect(
+      resolveTrustedProxies(1, { TRUSTED_PROXIES: "10.0.0.0/8, ::1" })
+    ).toEqual(["10.0.0.0/8", "::1"]);
+  });
+});
+
+describe("createProxyTrust", () => {
+  test("trusts addresses and CIDRs", () => {
+    const trust = createProxyTrust(["10.0.0.0/8", "127.0.0.1", "fd00::/8"]);
+    expect(trust("10.1.2.3", 0)).toBe(true);
+    expect(trust("::ffff:10.1.2.3", 0)).toBe(true);
+    expect(trust("127.0.0.1", 0)).toBe(true);
+    expect(trust("127.0.0.2", 0)).toBe(false);
+    expect(trust("fd12::1", 0)).toBe(true);
+    expect(trust("2001:db8::1", 0)).toBe(false);
+    expect(trust("unknown", 0)).toBe(false);
+  });
+
+  test("trusts the nearest hops for a hop count", () => {
+    const trust = createProxyTrust(2);
+    expect(trust("203.0.113.7", 0)).toBe(true);
+    expect(trust("203.0.113.7", 1)).toBe(true);
+    expect(trust("203.0.113.7", 2)).toBe(false);
+  });
+
+  test("rejects invalid entries", () => {
+    expect(() => createProxyTrust(["10.0.0.0/33"])).toThrow(
+      'Invalid trusted proxy "10.0.0.0/33"'
+    );
+    expect(() => createProxyTrust(["proxy.internal"])).toThrow();
+    expect(() => createProxyTrust(-1)).toThrow();
+  });
+});
+
+describe("parseForwarded", () => {
+  test("parses elements with quoted values, ports, and IPv6", () => {
+    expect(
+      parseForwarded(
+        'for=192.0.2.60:4711;proto=HTTPS;host=example.com, for="[2001:db8::1]:80", For=unknown'
+      )
+    ).toEqual([
+      { for: "192.0.2.60", proto: "https", host: "example.com" },
+      { for: "2001:db8::1" },
+      { for: "unknown" },
+    ]);
+  });
+});
+
+describe("resolveForwarded", () => {
+  const trustLocal = createProxyTrust(["127.0.0.1", "10.0.0.0/8"]);
+
+  test("ignores headers from an untrusted peer", () => {
+    const original = request({
+      "x-forwarded-for": "203.0.113.7",
+      "x-forwarded-proto": "https",
+    });
+    const result = resolveForwarded(original, "198.51.100.1", trustLocal);
+    expect(result.request).toBe(original);
+    expect(result.clientAddress).toBe("198.51.100.1");
+  });
+
+  test("applies X-Forwarded-* from a trusted peer", () => {
+    const result = resolveForwarded(
+      request({
+        "x-forwarded-for": "203.0.113.7",
+        "x-forwarded-proto": "https",
+        "x-forwarded-host": "example.com",
+      }),
+      "127.0.0.1",
+      trustLocal
+    );
+    expect(result.request.url).toBe("https://example.com/page?x=1");
+    expect(result.clientAddress).toBe("203.0.113.7");
+  });
+
+  test("stops at the first untrusted address", () => {
+    const result = resolveForwarded(
+      request({ "x-forwarded-for": "198.51.100.9, 203.0.113.7, 10.0.0.2" }),
+      "127.0.0.1",
+      trustLocal
+    );
+    expect(result.clientAddress).toBe("203.0.113.7");
+  });
+
+  test("counts hops for a hop count", () => {
+    const result = resolveForwarded(
+      request({ "x-forwarded-for": "198.51.100.9, 203.0.113.7, 10.0.0.2" }),
+      "127.0.0.1",
+      createProxyTrust(2)
+    );
+    expect(result.clientAddress).toBe("203.0.113.7");
+  });
+
+  test("prefers Forwarded and uses the client hop's proto and host", () => {
+    const result = resolveForwarded(
+      request({
+        forwarded:
+          "for=203.0.113.7;proto=https;host=example.com, for=10.0.0.2;proto=http;host=internal",
+        "x-forwarded-for": "198.51.100.9",
+      }),
+      "127.0.0.1",
+      trustLocal
+    );
+    expect(result.request.url).toBe("https://example.com/page?x=1");
+    expect(result.clientAddress).toBe("203.0.113.7");
+  });
+
+  test("keeps the host's port and ignores invalid values", () => {
+    const withPort = resolveForwarded(
+      request({ "x-forwarded-host": "example.com:8443" }),
+      "127.0.0.1",
+      trustLocal
+    );
+    expect(withPort.request.url).toBe("http://example.com:8443/page?x=1");
+    expect(withPort.clientAddress).toBe("127.0.0.1");
+
+    const invalid = resolveForwarded(
+      request({
+        "x-forwarded-proto": "javascript",
+        "x-forwarded-host": "evil.com/path",
+      }),
+      "127.0.0.1",
+      trustLocal
+    );
+    expect(invalid.request.url).toBe("http://localhost:4321/page?x=1");
+  });
+
+  test("preserves the method and body", async () => {
+    const result = resolveForwarded(
+      new Request("http://localhost/form", {
+        method: "POST",
+        body: "a=1",
+        headers: { "x-forwarded-proto": "https" },
+      }),
+      "127.0.0.1",
+      trustLocal
+    );
+    expect(result.request.method).toBe("POST");
+    expect(await result.request.text()).toBe("a=1");
+  });
+});
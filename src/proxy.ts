@@ -0,0 +1,188 @@
+import { BlockList, isIP } from "node:net";
+
+/**
+ * Decides whether the address `hop` steps away from the server (`0` is the
+ * connecting peer) is a trusted proxy.
+ */
+export type ProxyTrust = (address: string, hop: number) => boolean;
+
+/** One proxy hop described by `Forwarded` or `X-Forwarded-*`. */
+interface ForwardedHop {
+  for?: string;
+  proto?: string;
+  host?: string;
+}
+
+const PROTO = /^https?$/;
+const HOST = /^(?:[a-z0-9.-]+|\[[0-9a-f:.]+\])(?::\d{1,5})?$/i;
+
+/**
+ * Resolve the trusted proxy setting. `TRUSTED_PROXIES` overrides the config
+ * with a hop count or a comma-separated list of addresses and CIDRs.
+ * Returns `undefined` when no proxy is trusted.
+ */
+export function resolveTrustedProxies(
+  config: false | number | string[],
+  env: Record<string, string | undefined>
+): number | string[] | undefined {
+  const value = env.TRUSTED_PROXIES;
+  if (value) {
+    return /^\d+$/.test(value.trim())
+      ? Number(value)
+      : value
+          .split(",")
+          .map((entry) => entry.trim())
+          .filter(Boolean);
+  }
+  return config === false ? undefined : config;
+}
+
+/**
+ * Build a {@link ProxyTrust} from a hop count (the number of proxies in
+ * front of the server) or a list of addresses and CIDRs. IPv4 entries also
+ * match IPv4-mapped IPv6 addresses (`::ffff:10.0.0.1`).
+ */
+export function createProxyTrust(trusted: number | string[]): ProxyTrust {
+  if (typeof trusted === "number") {
+    if (!Number.isInteger(trusted) || trusted < 0) {
+      throw new Error(
+        `Invalid trusted proxy hop count "${trusted}": expected a non-negative integer`
+      );
+    }
+    return (_address, hop) => hop < trusted;
+  }
+
+  const list = new BlockList();
+  for (const entry of trusted) {
+    const [address, prefix] = entry.split("/");
+    const family = isIP(address);
+    const bits = prefix === undefined ? undefined : Number(prefix);
+    const max = family === 4 ? 32 : 128;
+    if (
+      family === 0 ||
+      (bits !== undefined &&
+        !(Number.isInteger(bits) && bits >= 0 && bits <= max))
+    ) {
+      throw new Error(
+        `Invalid trusted proxy "${entry}": expected an IP address or CIDR`
+      );
+    }
+    const type = family === 4 ? "ipv4" : "ipv6";
+    if (bits === undefined) list.addAddress(address, type);
+    else list.addSubnet(address, bits, type);
+  }
+  return (address) => {
+    const family = isIP(address);
+    return family !== 0 && list.check(address, family === 4 ? "ipv4" : "ipv6");
+  };
+}
+
+/** Strip quotes, IPv6 brackets, and ports from a forwarded address. */
+function normalizeAddress(value: string): string {
+  const address = value.replace(/^"|"$/g, "");
+  if (address.startsWith("[")) return address.slice(1, address.indexOf("]"));
+  // IPv4 with a port; bare IPv6 addresses have several colons.
+  const parts = address.split(":");
+  return parts.length === 2 ? parts[0] : address;
+}
+
+/** Parse an RFC 7239 `Forwarded` header into hops, nearest last. */
+export function parseForwarded(header: string): ForwardedHop[] {
+  return header.split(",").map((element) => {
+    const hop: ForwardedHop = {};
+    for (const pair of element.split(";")) {
+      const separator = pair.indexOf("=");
+      if (separator <= 0) continue;
+      const key = pair.slice(0, separator).trim().toLowerCase();
+      const value = pair
+        .slice(separator + 1)
+        .trim()
+        .replace(/^"|"$/g, "");
+      if (key === "for") hop.for = normalizeAddress(value);
+      else if (key === "proto") hop.proto = value.toLowerCase();
+      else if (key === "host") hop.host = value;
+    }
+    return hop;
+  });
+}
+
+function splitList(header: string | null): string[] {
+  if (header === null) return [];
+  return header
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Read the proxy hops from `Forwarded`, or else `X-Forwarded-For`, `-Proto`,
+ * and `-Host`. Shorter `-Proto`/`-Host` lists are aligned with the nearest
+ * hops, so a single value set by the edge proxy applies to the client hop.
+ */
+function readHops(headers: Headers): ForwardedHop[] {
+  const forwarded = headers.get("forwarded");
+  if (forwarded !== null) return parseForwarded(forwarded);
+
+  const addresses = splitList(headers.get("x-forwarded-for"));
+  const protos = splitList(headers.get("x-forwarded-proto"));
+  const hosts = splitList(headers.get("x-forwarded-host"));
+  const length = Math.max(
+    addresses.length,
+    protos.length > 0 || hosts.length > 0 ? 1 : 0
+  );
+  const align = (list: string[], index: number) =>
+    list[Math.max(0, index - (length - list.length))];
+
+  return Array.from({ length }, (_, index) => ({
+    for:
+      addresses[index] === undefined
+        ? undefined
+        : normalizeAddress(addresses[index]),
+    proto: align(protos, index)?.toLowerCase(),
+    host: align(hosts, index),
+  }));
+}
+
+/**
+ * Apply forwarding headers from trusted proxies. Starting at the connecting
+ * peer, hops are walked outward while their address is trusted; the first
+ * untrusted address is the client, and the protocol and host recorded for
+ * that hop replace the request URL's. Requests from an untrusted peer are
+ * returned unchanged, so clients can't spoof these headers.
+ */
+export function resolveForwarded(
+  request: Request,
+  peer: string | undefined,
+  trust: ProxyTrust
+): { request: Request; clientAddress: string | undefined } {
+  if (peer === undefined || !trust(peer, 0)) {
+    return { request, clientAddress: peer };
+  }
+
+  const hops = readHops(request.headers);
+  let clientAddress = peer;
+  let selected: ForwardedHop | undefined;
+  for (let index = hops.length - 1, hop = 1; index >= 0; index--, hop++) {
+    selected = hops[index];
+    const address = selected.for;
+    // `unknown` and obfuscated identifiers end the chain.
+    if (address === undefined || isIP(address) === 0) break;
+    clientAddress = address;
+    if (!trust(address, hop)) break;
+  }
+
+  const url = new URL(request.url);
+  if (selected?.proto && PROTO.test(selected.proto)) {
+    url.protocol = `${selected.proto}:`;
+  }
+  if (selected?.host && HOST.test(selected.host)) {
+    // The host setter keeps the old port when the new host has none.
+    url.port = "";
+    url.host = selected.host;
+  }
+  return {
+    request:
+      url.href === request.url ? request : new Request(url.href, request),
+    clientAddress,
+  };
+}
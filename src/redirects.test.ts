@@ -0,0 +1,151 @@
+import { describe, expect, test } from "bun:test";
+import { createRedirectMatcher, serializeRedirects } from "./redirects.ts";
+
+describe("serializeRedirects", () => {
+  test("normalizes string and object configs", () => {
+    expect(
+      serializeRedirects({
+        "/old": "/new",
+        "/moved": { status: 302, destination: "/elsewhere" },
+      })
+    ).toEqual([
+      { source: "/old", destination: "/new" },
+      { source: "/moved", destination: "/elsewhere", status: 302 },
+    ]);
+  });
+});
+
+describe("createRedirectMatcher", () => {
+  test("returns undefined when no rule matches", () => {
+    const match = createRedirectMatcher([
+      { source: "/old", destination: "/new" },
+    ]);
+    expect(match("/other", "GET")).toBeUndefined();
+  });
+
+  test("redirects exact sources with 301 for GET and 308 otherwise", () => {
+    const match = createRedirectMatcher([
+      { source: "/old", destination: "/new" },
+    ]);
+
+    const get = match("/old", "GET");
+    expect(get?.status).toBe(301);
+    expect(get?.headers.get("location")).toBe("/new");
+
+    expect(match("/old", "POST")?.status).toBe(308);
+  });
+
+  test("ignores a trailing slash on the request or source", () => {
+    const match = createRedirectMatcher([
+      { source: "/old/", destination: "/new" },
+    ]);
+    expect(match("/old", "GET")?.headers.get("location")).toBe("/new");
+    expect(match("/old/", "GET")?.headers.get("location")).toBe("/new");
+  });
+
+  test("uses a custom status code", () => {
+    const match = createRedirectMatcher([
+      { source: "/temp", destination: "/target", status: 307 },
+    ]);
+    expect(match("/temp", "GET")?.status).toBe(307);
+    expect(match("/temp", "POST")?.status).toBe(307);
+  });
+
+  test("substitutes single-segment params", () => {
+    const match = createRedirectMatcher([
+      { source: "/blog/[slug]", destination: "/articles/[slug]" },
+    ]);
+    expect(match("/blog/hello", "GET")?.headers.get("location")).toBe(
+      "/articles/hello"
+    );
+    // Single-segment params do not span slashes.
+    expect(match("/blog/a/b", "GET")).toBeUndefined();
+  });
+
+  test("substitutes rest params across segments", () => {
+    const match = createRedirectMatcher([
+      { source: "/docs/[...path]", destination: "/guide/[...path]" },
+    ]);
+    expect(match("/docs/a/b/c", "GET")?.headers.get("location")).toBe(
+      "/guide/a/b/c"
+    );
+    expect(match("/docs", "GET")?.headers.get("location")).toBe("/guide/");
+  });
+
+  test("encodes the whole location, like Astro's encodeURI", () => {
+    const match = createRedirectMatcher([
+      { source: "/blog/[slug]", destination: "/articles/[slug]" },
+      { source: "/docs/[...path]", destination: "/guide/[...path]" },
+    ]);
+    expect(match("/blog/中文", "GET")?.headers.get("location")).toBe(
+      "/articles/%E4%B8%AD%E6%96%87"
+    );
+    expect(match("/blog/café", "GET")?.headers.get("location")).toBe(
+      "/articles/caf%C3%A9"
+    );
+    expect(match("/docs/a b/ü", "GET")?.headers.get("location")).toBe(
+      "/guide/a%20b/%C3%BC"
+    );
+  });
+
+  test("uses object-form destinations as written, like Astro", () => {
+    const match = createRedirectMatcher([
+      { source: "/blog/[slug]", destination: "/posts/[slug]", status: 302 },
+      { source: "/café", destination: "/menü", status: 307 },
+    ]);
+    // Astro only substitutes params into string-form destinations, and
+    // `encodeURI` escapes the brackets.
+    const res = match("/blog/hello", "GET");
+    expect(res?.status).toBe(302);
+    expect(res?.headers.get("location")).toBe("/posts/%5Bslug%5D");
+    expect(match("/café", "GET")?.headers.get("location")).toBe("/men%C3%BC");
+  });
+
+  test("supports multiple params in one pattern", () => {
+    const match = createRedirectMatcher([
+      {
+        source: "/[lang]/posts/[id]",
+        destination: "/posts/[id]?lang=[lang]",
+      },
+    ]);
+    expect(match("/en/posts/42", "GET")?.headers.get("location")).toBe(
+      "/posts/42?lang=en"
+    );
+  });
+
+  test("exact rules take precedence over dynamic ones", () => {
+    const match = createRedirectMatcher([
+      { source: "/blog/[slug]", destination: "/articles/[slug]" },
+      { source: "/blog/special", destination: "/special" },
+    ]);
+    expect(match("/blog/special", "GET")?.headers.get("location")).toBe(
+      "/special"
+    );
+  });
+
+  test("escapes literal regex characters in sources", () => {
+    const match = createRedirectMatcher([
+      { source: "/v1.0/[page]", destination: "/v1/[page]" },
+    ]);
+    expect(match("/v1x0/home", "GET")).toBeUndefined();
+    expect(match("/v1.0/home", "GET")?.headers.get("location")).toBe(
+      "/v1/home"
+    );
+  });
+
+  test("passes external destinations through unchanged", () => {
+    const match = createRedirectMatcher([
+      { source: "/gh", destination: "https://github.com/withastro/astro" },
+    ]);
+    expect(match("/gh", "GET")?.headers.get("location")).toBe(
+      "https://github.com/withastro/astro"
+    );
+    // External destinations are neither substituted nor encoded.
+    const external = createRedirectMatcher([
+      { source: "/s/[id]", destination: "https://example.com/[id]?q=a b" },
+    ]);
+    expect(external("/s/1", "GET")?.headers.get("location")).toBe(
+      "https://example.com/[id]?q=a b"
+    );
+  });
+});
@@ -0,0 +1,138 @@
+import type { AstroConfig } from "astro";
+import { escapeRegExp } from "./glob.ts";
+import type { RedirectRule } from "./types.ts";
+
+/** Matches `[param]` and `[...param]` placeholders in a route pattern. */
+const PARAM_PATTERN = /\[(\.\.\.)?([^\]]+)\]/g;
+
+/** Serialize Astro's `redirects` config into the adapter's redirect table. */
+export function serializeRedirects(
+  redirects: AstroConfig["redirects"]
+): RedirectRule[] {
+  return Object.entries(redirects).map(([source, config]) =>
+    typeof config === "string"
+      ? { source, destination: config }
+      : { source, destination: config.destination, status: config.status }
+  );
+}
+
+/** A dynamic redirect compiled to a regular expression. */
+interface CompiledRule {
+  rule: RedirectRule;
+  pattern: RegExp;
+  params: string[];
+}
+
+/** Remove a trailing slash so `/old` and `/old/` match the same rule. */
+function normalize(pathname: string): string {
+  return pathname.length > 1 && pathname.endsWith("/")
+    ? pathname.slice(0, -1)
+    : pathname;
+}
+
+/**
+ * Compile a route pattern to a regular expression. `[param]` matches a
+ * single segment and `[...param]` matches any remainder (including none).
+ */
+function compile(rule: RedirectRule): CompiledRule {
+  const params: string[] = [];
+  let source = "";
+  let last = 0;
+  const pattern = normalize(rule.source);
+
+  for (const match of pattern.matchAll(PARAM_PATTERN)) {
+    source += escapeRegExp(pattern.slice(last, match.index));
+    const [, rest, name] = match;
+    params.push(name);
+    if (rest) {
+      // A rest param also absorbs its leading slash so `/blog/[...slug]`
+      // matches `/blog` itself.
+      if (source.endsWith("/")) {
+        source = `${source.slice(0, -1)}(?:/(.*))?`;
+      } else {
+        source += "(.*)";
+      }
+    } else {
+      source += "([^/]+)";
+    }
+    last = match.index + match[0].length;
+  }
+  source += escapeRegExp(pattern.slice(last));
+
+  return { rule, pattern: new RegExp(`^${source}$`), params };
+}
+
+/** Whether a destination is an absolute or protocol-relative URL. */
+function isExternal(destination: string): boolean {
+  return /^(?:https?:)?\/\//.test(destination);
+}
+
+/**
+ * Build the `Location` for a matched rule, mirroring Astro's
+ * `renderRedirect`: params are substituted into string-form destinations
+ * only (object-form rules, which carry a `status`, are used as written),
+ * and internal locations are passed through `encodeURI` as a whole, since
+ * params come from the decoded pathname. External destinations are used
+ * as written.
+ */
+function resolveLocation(
+  rule: RedirectRule,
+  params: Record<string, string>
+): string {
+  if (isExternal(rule.destination)) return rule.destination;
+  let target = rule.destination;
+  if (rule.status === undefined) {
+    for (const [name, value] of Object.entries(params)) {
+      target = target
+        .replace(`[${name}]`, value)
+        .replace(`[...${name}]`, value);
+    }
+  }
+  return encodeURI(target);
+}
+
+/**
+ * Build a redirect lookup from a serialized redirect table. Exact sources
+ * are resolved with a map lookup; dynamic patterns are tried in config
+ * order. Returns a function that yields a redirect `Response` for matching
+ * requests, or `undefined`.
+ */
+export function createRedirectMatcher(
+  rules: RedirectRule[]
+): (pathname: string, method: string) => Response | undefined {
+  const exact = new Map<string, RedirectRule>();
+  const dynamic: CompiledRule[] = [];
+
+  for (const rule of rules) {
+    if (rule.source.includes("[")) {
+      dynamic.push(compile(rule));
+    } else {
+      exact.set(normalize(rule.source), rule);
+    }
+  }
+
+  const respond = (rule: RedirectRule, location: string, method: string) => {
+    // Astro's default: 301 for GET, 308 otherwise to preserve the method.
+    const status = rule.status ?? (method === "GET" ? 301 : 308);
+    return new Response(null, { status, headers: { Location: location } });
+  };
+
+  return (pathname, method) => {
+    const key = normalize(pathname);
+
+    const rule = exact.get(key);
+    if (rule) return respond(rule, resolveLocation(rule, {}), method);
+
+    for (const { rule, pattern, params } of dynamic) {
+      const match = pattern.exec(key);
+      if (!match) continue;
+      const values: Record<string, string> = {};
+      params.forEach((name, i) => {
+        values[name] = match[i + 1] ?? "";
+      });
+      return respond(rule, resolveLocation(rule, values), method);
+    }
+
+    return undefined;
+  };
+}
@@ -0,0 +1,81 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import {
+  createRuntimeLocals,
+  getServer,
+  pendingRequests,
+  pendingWebSockets,
+  publish,
+  registerIncomingRequest,
+  registerServer,
+  requestIP,
+  timeout,
+} from "./runtime.ts";
+import type { WebSocketData } from "./types.ts";
+
+const RUNTIME_KEY = Symbol.for("@wyattjoh/astro-bun-adapter:runtime");
+
+beforeEach(() => {
+  // Start unregistered, even after other test files started a server.
+  delete (globalThis as Record<symbol, unknown>)[RUNTIME_KEY];
+});
+
+// The server lives in process-wide state, so these tests must not interleave.
+describe.serial("runtime", () => {
+  const server = Bun.serve<WebSocketData>({
+    port: 0,
+    hostname: "127.0.0.1",
+    fetch(request, server) {
+      const url = new URL(request.url);
+      if (url.pathname === "/locals") {
+        const locals = createRuntimeLocals(server, request);
+        locals.timeout(30);
+        return Response.json({
+          address: locals.requestIP()?.address,
+          same: locals.server === server,
+        });
+      }
+      // Other test files register their own server; claim it synchronously.
+      registerServer(server);
+      // Astro sees a rewritten copy when forwarding headers are applied.
+      const rewritten = new Request("https://example.com/", request);
+      registerIncomingRequest(rewritten, request);
+      timeout(rewritten, 30);
+      return Response.json({
+        address: requestIP(rewritten)?.address,
+        pending: pendingRequests(),
+      });
+    },
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("falls back to no-ops without a server", () => {
+    const request = new Request("http://localhost/");
+    expect(getServer()).toBeUndefined();
+    expect(publish("topic", "message")).toBe(0);
+    expect(requestIP(request)).toBeNull();
+    expect(() => timeout(request, 10)).not.toThrow();
+    expect(() =>
+      registerIncomingRequest(request, new Request("http://localhost/"))
+    ).not.toThrow();
+    expect(pendingRequests()).toBe(0);
+    expect(pendingWebSockets()).toBe(0);
+  });
+
+  test("exposes the registered server", async () => {
+    registerServer(server);
+    expect(getServer()).toBe(server);
+    expect(publish("topic", "message")).toBe(0);
+    expect(pendingWebSockets()).toBe(0);
+
+    const res = await fetch(server.url);
+    expect(await res.json()).toEqual({ address: "127.0.0.1", pending: 1 });
+  });
+
+  test("builds per-request locals", async () => {
+    const res = await fetch(new URL("/locals", server.url));
+    expect(await res.json()).toEqual({ address: "127.0.0.1", same: true });
+  });
+});
@@ -0,0 +1,125 @@
+import type { BufferSource, Server, SocketAddress } from "bun";
+import type { RuntimeLocals, WebSocketData } from "./types.ts";
+
+const RUNTIME_KEY = Symbol.for("@wyattjoh/astro-bun-adapter:runtime");
+
+/** The running server, shared across bundles via globalThis. */
+interface RuntimeState {
+  server: Server<WebSocketData>;
+  /** Requests rewritten for trusted proxies, mapped to the ones Bun received. */
+  incoming: WeakMap<Request, Request>;
+}
+
+/** @internal Register the server on globalThis for cross-module access. */
+export function registerServer(server: Server<WebSocketData>): void {
+  (globalThis as Record<symbol, unknown>)[RUNTIME_KEY] = {
+    server,
+    incoming: new WeakMap(),
+  } satisfies RuntimeState;
+}
+
+/**
+ * @internal Remember the request Bun received for a rewritten copy, so
+ * request-level accessors work with the copy Astro sees.
+ */
+export function registerIncomingRequest(
+  request: Request,
+  incoming: Request
+): void {
+  getState()?.incoming.set(request, incoming);
+}
+
+function getState(): RuntimeState | undefined {
+  return (globalThis as Record<symbol, unknown>)[RUNTIME_KEY] as
+    | RuntimeState
+    | undefined;
+}
+
+/** @internal Build `locals.runtime` for the request Bun received. */
+export function createRuntimeLocals(
+  server: Server<WebSocketData>,
+  incoming: Request
+): RuntimeLocals {
+  return {
+    server,
+    requestIP: () => server.requestIP(incoming),
+    timeout: (seconds) => server.timeout(incoming, seconds),
+  };
+}
+
+/**
+ * The server created by `Bun.serve`, or `undefined` when the adapter's
+ * server is not running (e.g. in `astro dev` or while prerendering).
+ *
+ * @example
+ * ```ts
+ * import { getServer } from "@wyattjoh/astro-bun-adapter/runtime";
+ *
+ * const server = getServer();
+ * if (server) console.log(`Listening on ${server.url}`);
+ * ```
+ */
+export function getServer(): Server<WebSocketData> | undefined {
+  return getState()?.server;
+}
+
+/**
+ * Send a message to every WebSocket subscribed to `topic`. Returns the bytes
+ * sent, `0` if dropped (and always when the server is not running), or `-1`
+ * under backpressure.
+ *
+ * @example
+ * ```ts
+ * import { publish } from "@wyattjoh/astro-bun-adapter/runtime";
+ *
+ * publish("dashboard", JSON.stringify({ orders: 42 }));
+ * ```
+ */
+export function publish(
+  topic: string,
+  data: string | BufferSource,
+  compress?: boolean
+): number {
+  return getState()?.server.publish(topic, data, compress) ?? 0;
+}
+
+/**
+ * Address of the peer that sent `request`, or `null` when unknown or the
+ * server is not running. Behind trusted proxies this is the proxy.
+ *
+ * @example
+ * ```ts
+ * // src/middleware.ts
+ * import { requestIP } from "@wyattjoh/astro-bun-adapter/runtime";
+ *
+ * export const onRequest = (context, next) => {
+ *   console.log(requestIP(context.request)?.address);
+ *   return next();
+ * };
+ * ```
+ */
+export function requestIP(request: Request): SocketAddress | null {
+  const state = getState();
+  if (!state) return null;
+  return state.server.requestIP(state.incoming.get(request) ?? request);
+}
+
+/**
+ * Set the idle timeout of `request` in seconds (`0` disables it), e.g. for
+ * long-polling or slow streaming responses. No-op when the server is not
+ * running.
+ */
+export function timeout(request: Request, seconds: number): void {
+  const state = getState();
+  state?.server.timeout(state.incoming.get(request) ?? request, seconds);
+}
+
+/** Number of requests in flight, or `0` when the server is not running. */
+export function pendingRequests(): number {
+  return getState()?.server.pendingRequests ?? 0;
+}
+
+/** Number of open WebSockets, or `0` when the server is not running. */
+export function pendingWebSockets(): number {
+  return getState()?.server.pendingWebSockets ?? 0;
+}
@@ -3,6 +3,8 @@ import { mkdirSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { pathToFileURL } from "node:url";
+import type { SocketAddress } from "bun";
+import type { AdapterLocals, WebSocketLocals } from "./types.ts";
 
 // ---------------------------------------------------------------------------
 // Helpers for building a temp adapter dir with the files server.ts reads at
@@ -37,8 +39,26 @@ function makeTempAdapterDir(
 // module-level code in this file.
 // ---------------------------------------------------------------------------
 
-const { serverDir } = makeTempAdapterDir(
+const { base: tempBase, serverDir } = makeTempAdapterDir(
   {
+    "/404.html": {
+      headers: {
+        etag: '"not-found"',
+        "content-type": "text/html",
+        "content-length": "9",
+        "cache-control": "public, max-age=86400, must-revalidate",
+      },
+      filePath: "404.html",
+    },
+    "/500.html": {
+      headers: {
+        etag: '"error"',
+        "content-type": "text/html",
+        "content-length": "5",
+        "cache-control": "public, max-age=86400, must-revalidate",
+      },
+      filePath: "500.html",
+    },
     "/index.html": {
       headers: {
         // Headers are canonicalized to lowercase by generateStaticManifest.
@@ -53,6 +73,9 @@ const { serverDir } = makeTempAdapterDir(
   "test-build-id"
 );
 
+writeFileSync(join(tempBase, "client", "404.html"), "not found");
+writeFileSync(join(tempBase, "client", "500.html"), "error");
+
 const mockLogger = {
   info: mock((_msg: string) => {}),
   error: mock((_msg: string) => {}),
@@ -67,8 +90,43 @@ const mockApp = {
     buildServerDir: pathToFileURL(`${serverDir}/`),
     base: "/",
   },
-  match: mock((_request: Request) => undefined),
-  render: mock(async (_request: Request) => new Response("rendered")),
+  // Only `/ssr/*` paths resolve to an SSR route; `/ssr/throw` fails to render.
+  // Unmatched requests run a "middleware" that redirects `/legacy/*`, then
+  // fall back to the prerendered 404 page like Astro's error handler.
+  match: mock((request: Request) =>
+    new URL(request.url).pathname.startsWith("/ssr/") ? {} : undefined
+  ),
+  render: mock(
+    async (
+      request: Request,
+      options?: {
+        routeData?: unknown;
+        locals?: Partial<WebSocketLocals>;
+        prerenderedErrorPageFetch?: (url: string) => Promise<Response>;
+      }
+    ) => {
+      const { pathname } = new URL(request.url);
+      if (!options?.routeData) {
+        if (pathname.startsWith("/legacy/")) {
+          return Response.redirect("http://localhost/ssr/page", 301);
+        }
+        const page = await options?.prerenderedErrorPageFetch?.(
+          "http://localhost/404.html"
+        );
+        return new Response(page?.body, {
+          status: 404,
+          headers: page?.headers,
+        });
+      }
+      if (pathname === "/ssr/throw") {
+        throw new Error("render failed");
+      }
+      if (pathname === "/ssr/socket" && options?.locals?.upgradeWebSocket) {
+        return options.locals.upgradeWebSocket({});
+      }
+      return new Response("rendered");
+    }
+  ),
 };
 
 mock.module("virtual:@wyattjoh/astro-bun-adapter/config", () => ({
@@ -76,7 +134,22 @@ mock.module("virtual:@wyattjoh/astro-bun-adapter/config", () => ({
   host: "localhost",
   port: 4321,
   imageEndpointRoute: "/_image",
+  trailingSlash: "ignore",
   isr: false,
+  staticMemoryCache: false,
+  nativeStaticRoutes: false,
+  sourceMapGate: false,
+  tls: false,
+  httpRedirectPort: false,
+  socket: false,
+  workers: 1,
+  shutdownTimeout: 10_000,
+  drainDelay: 0,
+  health: { livenessPath: "/_health", readinessPath: "/_ready" },
+  accessLog: false,
+  metrics: { path: "/metrics", token: "metrics-secret" },
+  tracing: false,
+  trustedProxies: ["127.0.0.1"],
 }));
 
 mock.module("astro/app/entrypoint", () => ({
@@ -235,6 +308,47 @@ describe("computeImageEndpointPath", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Tests for stripBase
+// ---------------------------------------------------------------------------
+
+describe("stripBase", () => {
+  test("returns the pathname unchanged when base is '/'", () => {
+    expect(serverModule.stripBase("/about", "/")).toBe("/about");
+    expect(serverModule.stripBase("/", "/")).toBe("/");
+  });
+
+  test("strips a base without a trailing slash", () => {
+    expect(serverModule.stripBase("/docs/_astro/main.js", "/docs")).toBe(
+      "/_astro/main.js"
+    );
+  });
+
+  test("strips a base with a trailing slash", () => {
+    expect(serverModule.stripBase("/docs/about", "/docs/")).toBe("/about");
+  });
+
+  test("maps the bare base to the root route", () => {
+    expect(serverModule.stripBase("/docs", "/docs")).toBe("/");
+    expect(serverModule.stripBase("/docs/", "/docs")).toBe("/");
+    expect(serverModule.stripBase("/docs", "/docs/")).toBe("/");
+  });
+
+  test("returns undefined outside the base", () => {
+    expect(serverModule.stripBase("/about", "/docs")).toBeUndefined();
+    // A shared prefix is not a path segment match.
+    expect(serverModule.stripBase("/docs-old/page", "/docs")).toBeUndefined();
+  });
+
+  test("matches the URLs that Astro actually emits", () => {
+    // Assets are emitted as `${base}/_astro/...` but written to
+    // `dist/client/_astro/...`, so the manifest key has no base.
+    expect(
+      serverModule.stripBase("/docs/_astro/index.B3xK9.css", "/docs")
+    ).toBe("/_astro/index.B3xK9.css");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Tests for server module exports and Bun.serve invocation
 // ---------------------------------------------------------------------------
@@ -262,3 +376,233 @@ describe("server module", () => {
     );
   });
 });
+
+// ---------------------------------------------------------------------------
+// Tests for the fetch handler's error pages
+// ---------------------------------------------------------------------------
+
+describe("fetch error pages", () => {
+  const fetchHandler = (
+    capturedServeConfig as {
+      fetch: (request: Request, server: unknown) => Promise<Response>;
+    }
+  ).fetch;
+  const fakeServer = { requestIP: () => null };
+
+  test("serves the prerendered 404 page for unmatched requests", async () => {
+    const res = await fetchHandler(
+      new Request("http://localhost/missing"),
+      fakeServer
+    );
+    expect(res.status).toBe(404);
+    expect(res.headers.get("cache-control")).toBe("no-store");
+    expect(res.headers.get("etag")).toBeNull();
+    expect(await res.text()).toBe("not found");
+  });
+
+  test("lets middleware answer unmatched requests", async () => {
+    const res = await fetchHandler(
+      new Request("http://localhost/legacy/page"),
+      fakeServer
+    );
+    expect(res.status).toBe(301);
+    expect(res.headers.get("location")).toBe("http://localhost/ssr/page");
+  });
+
+  test("renders matched SSR routes", async () => {
+    const res = await fetchHandler(
+      new Request("http://localhost/ssr/page"),
+      fakeServer
+    );
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("rendered");
+  });
+
+  test("serves the prerendered 500 page when rendering throws", async () => {
+    const res = await fetchHandler(
+      new Request("http://localhost/ssr/throw"),
+      fakeServer
+    );
+    expect(res.status).toBe(500);
+    expect(await res.text()).toBe("error");
+    expect(mockLogger.error).toHaveBeenCalled();
+  });
+
+  test("rejects malformed percent-encoding without logging an error", async () => {
+    const res = await fetchHandler(
+      new Request("http://localhost/%E0%A4%A"),
+      fakeServer
+    );
+    expect(res.status).toBe(400);
+    expect(
+      mockLogger.error.mock.calls.some(([message]) =>
+        message.includes("%E0%A4%A")
+      )
+    ).toBe(false);
+  });
+});
+
+describe("fetch health probes", () => {
+  const fetchHandler = (
+    capturedServeConfig as {
+      fetch: (request: Request, server: unknown) => Promise<Response>;
+    }
+  ).fetch;
+  const fakeServer = { requestIP: () => null };
+
+  test("answers the liveness probe", async () => {
+    const res = await fetchHandler(
+      new Request("http://localhost/_health"),
+      fakeServer
+    );
+    expect(res.status).toBe(200);
+    expect(res.headers.get("cache-control")).toBe("no-store");
+    expect(await res.json()).toEqual({ status: "ok" });
+  });
+
+  test("reports ready once the manifest is loaded", async () => {
+    const res = await fetchHandler(
+      new Request("http://localhost/_ready"),
+      fakeServer
+    );
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      status: "ready",
+      checks: { isrCache: true, draining: false },
+    });
+  });
+});
+
+describe("fetch metrics", () => {
+  const fetchHandler = (
+    capturedServeConfig as {
+      fetch: (request: Request, server: unknown) => Promise<Response>;
+    }
+  ).fetch;
+  const fakeServer = { requestIP: () => null };
+
+  test("rejects scrapes without the bearer token", async () => {
+    const res = await fetchHandler(
+      new Request("http://localhost/metrics"),
+      fakeServer
+    );
+    expect(res.status).toBe(401);
+  });
+
+  test("reports served requests", async () => {
+    await fetchHandler(new Request("http://localhost/_health"), fakeServer);
+    const res = await fetchHandler(
+      new Request("http://localhost/metrics", {
+        headers: { authorization: "Bearer metrics-secret" },
+      }),
+      fakeServer
+    );
+    expect(res.status).toBe(200);
+    expect(await res.text()).toMatch(
+      /astro_bun_http_requests_total\{cache="none",status="200"\} \d+/
+    );
+  });
+});
+
+describe("fetch trusted proxies", () => {
+  const fetchHandler = (
+    capturedServeConfig as {
+      fetch: (request: Request, server: unknown) => Promise<Response>;
+    }
+  ).fetch;
+  const forwardedHeaders = {
+    "x-forwarded-for": "203.0.113.7",
+    "x-forwarded-proto": "https",
+    "x-forwarded-host": "example.com",
+  };
+
+  function renderCall(path: string) {
+    return mockApp.render.mock.calls.find(
+      ([request]) => new URL(request.url).pathname === path
+    ) as unknown as
+      | [Request, { clientAddress?: string; locals?: Partial<AdapterLocals> }]
+      | undefined;
+  }
+
+  test("applies forwarding headers from a trusted proxy", async () => {
+    await fetchHandler(
+      new Request("http://localhost:4321/ssr/proxied", {
+        headers: forwardedHeaders,
+      }),
+      { requestIP: () => ({ address: "127.0.0.1" }) }
+    );
+    const [request, options] = renderCall("/ssr/proxied") ?? [];
+    expect(request?.url).toBe("https://example.com/ssr/proxied");
+    expect(options?.clientAddress).toBe("203.0.113.7");
+  });
+
+  test("ignores forwarding headers from other peers", async () => {
+    await fetchHandler(
+      new Request("http://localhost:4321/ssr/direct", {
+        headers: forwardedHeaders,
+      }),
+      { requestIP: () => ({ address: "198.51.100.1" }) }
+    );
+    const [request, options] = renderCall("/ssr/direct") ?? [];
+    expect(request?.url).toBe("http://localhost:4321/ssr/direct");
+    expect(options?.clientAddress).toBe("198.51.100.1");
+  });
+
+  test("passes runtime locals bound to the request Bun received", async () => {
+    const address: SocketAddress = {
+      address: "127.0.0.1",
+      family: "IPv4",
+      port: 50000,
+    };
+    const requestIP = mock((_request: Request) => address);
+    const incoming = new Request("http://localhost:4321/ssr/runtime", {
+      headers: forwardedHeaders,
+    });
+    await fetchHandler(incoming, { requestIP });
+    const [request, options] = renderCall("/ssr/runtime") ?? [];
+    expect(request).not.toBe(incoming);
+    expect(options?.locals?.runtime?.requestIP()).toBe(address);
+    expect(requestIP.mock.calls.at(-1)?.[0]).toBe(incoming);
+  });
+});
+
+describe("fetch WebSocket upgrades", () => {
+  const fetchHandler = (
+    capturedServeConfig as {
+      fetch: (
+        request: Request,
+        server: unknown
+      ) => Promise<Response | undefined>;
+    }
+  ).fetch;
+  const upgradeRequest = () =>
+    new Request("http://localhost/ssr/socket", {
+      headers: { upgrade: "websocket", connection: "Upgrade" },
+    });
+
+  test("registers the websocket handlers", () => {
+    expect(
+      (capturedServeConfig as { websocket?: unknown }).websocket
+    ).toBeDefined();
+  });
+
+  test("returns nothing once the endpoint upgrades the request", async () => {
+    const upgrade = mock(() => true);
+    const request = upgradeRequest();
+    const res = await fetchHandler(request, {
+      requestIP: () => null,
+      upgrade,
+    });
+    expect(res).toBeUndefined();
+    expect(upgrade).toHaveBeenCalledTimes(1);
+    expect((upgrade.mock.calls[0] as unknown[])[0]).toBe(request);
+  });
+
+  test("answers 426 when the upgrade fails", async () => {
+    const res = await fetchHandler(upgradeRequest(), {
+      requestIP: () => null,
+      upgrade: () => false,
+    });
+    expect(res?.status).toBe(426);
+  });
+});
@@ -1,19 +1,99 @@
-import { readFileSync } from "node:fs";
+import { existsSync, readFileSync } from "node:fs";
 import { join } from "node:path";
 import { fileURLToPath } from "node:url";
 import {
+  accessLog as accessLogConfig,
   adapterDir as adapterDirRelative,
+  drainDelay as configDrainDelay,
   host as configHost,
+  httpRedirectPort as configHttpRedirectPort,
   port as configPort,
+  shutdownTimeout as configShutdownTimeout,
+  workers as configWorkers,
+  health as healthConfig,
   imageEndpointRoute,
   isr as isrConfig,
+  metrics as metricsConfig,
+  nativeStaticRoutes as nativeStaticRoutesConfig,
+  socket as socketConfig,
+  sourceMapGate,
+  staticMemoryCache as staticMemoryCacheConfig,
+  tls as tlsConfig,
+  tracing as tracingConfig,
+  trailingSlash,
+  trustedProxies as trustedProxiesConfig,
 } from "virtual:@wyattjoh/astro-bun-adapter/config";
 import { createApp } from "astro/app/entrypoint";
 import { setGetEnv } from "astro/env/setup";
+import type { Server } from "bun";
+import { createAccessLogger } from "./access-log.ts";
 import { registerCache } from "./cache.ts";
+import {
+  connectWorkerCache,
+  getWorkerId,
+  resolveWorkerCount,
+  runPrimary,
+} from "./cluster.ts";
 import { CACHE_HEADER } from "./constants.ts";
+import { createHealthHandler } from "./health.ts";
+import { registerIntegrity } from "./integrity.ts";
 import { createISRHandler } from "./isr/handler.ts";
-import type { ISRHandler, ManifestEntry } from "./types.ts";
+import {
+  isDraining,
+  resolveShutdownTimings,
+  runShutdownHooks,
+  startDraining,
+} from "./lifecycle.ts";
+import {
+  createMetrics,
+  createMetricsHandler,
+  resolveMetricsPort,
+} from "./metrics.ts";
+import { createOTLPExporter, resolveOTLPOptions } from "./otlp.ts";
+import {
+  createProxyTrust,
+  resolveForwarded,
+  resolveTrustedProxies,
+} from "./proxy.ts";
+import { createRedirectMatcher } from "./redirects.ts";
+import {
+  createRuntimeLocals,
+  registerIncomingRequest,
+  registerServer,
+} from "./runtime.ts";
+import {
+  applySocketPermissions,
+  removeSocket,
+  removeStaleSocket,
+  resolveSocketOptions,
+} from "./socket.ts";
+import {
+  canonicalPagePath,
+  createNativeStaticRoutes,
+  hasSourceMapAccess,
+  responseHeaders,
+  serveErrorPage,
+  serveStatic,
+} from "./static.ts";
+import { StaticMemoryCache } from "./static-cache.ts";
+import { createHttpsRedirect, resolveTLSOptions } from "./tls.ts";
+import {
+  type AttributeValue,
+  createTracer,
+  formatTraceparent,
+  parseTraceparent,
+  type Tracer,
+} from "./tracing.ts";
+import type {
+  AdapterLocals,
+  IntegrityManifest,
+  ISRHandler,
+  ManifestEntry,
+  RedirectRule,
+  TraceContext,
+  WebSocketData,
+} from "./types.ts";
+import { createWebSocketLocals, websocketHandler } from "./websocket.ts";
 
 // Required for astro:env/server to resolve env vars at runtime.
 setGetEnv((key) => process.env[key]);
@@ -70,10 +150,42 @@ export function computeImageEndpointPath(base: string, route: string): string {
   return `${baseWithoutTrailing}${routeWithLeadingSlash}`;
 }
 
+/**
+ * Strip `base` from a request pathname so it can be looked up in the static
+ * manifest, whose keys are relative to the client build directory (Astro
+ * does not nest the build output under `base`). Returns `undefined` when the
+ * pathname lies outside `base`.
+ */
+export function stripBase(pathname: string, base: string): string | undefined {
+  const prefix = base.endsWith("/") ? base.slice(0, -1) : base;
+  if (!prefix) return pathname;
+  if (pathname === prefix) return "/";
+  if (pathname.startsWith(`${prefix}/`)) return pathname.slice(prefix.length);
+  return undefined;
+}
+
 const app = createApp();
 const logger = app.adapterLogger;
 const { manifest } = app;
 
+// Cluster mode: the primary only supervises workers. Awaiting `runPrimary`
+// (which never resolves) stops the rest of this module -- loading manifests,
+// opening the ISR cache, listening -- from running in the primary.
+const workerId = getWorkerId(process.env);
+const workerCount = resolveWorkerCount(configWorkers, process.env);
+if (workerId === undefined && workerCount > 1) {
+  if (process.env.SOCKET_PATH || socketConfig) {
+    throw new Error("Cluster mode cannot be combined with a Unix socket");
+  }
+  // Fail before spawning workers that would all reject the config.
+  if (metricsConfig) resolveMetricsPort(metricsConfig.port, process.env, 0);
+  await runPrimary({
+    command: [process.execPath, ...process.execArgv, ...process.argv.slice(1)],
+    workers: workerCount,
+    logger,
+  });
+}
+
 // Resolve dirs from the manifest URL objects.
 const clientDir = fileURLToPath(manifest.buildClientDir);
 const serverDir = fileURLToPath(manifest.buildServerDir);
@@ -85,19 +197,136 @@ const staticManifest = new Map<string, ManifestEntry>(
   Object.entries(JSON.parse(readFileSync(manifestPath, "utf-8")))
 );
 
+// SRI digests for the `./integrity` helper. Asset URLs may carry `base`, or
+// not when they point at a CDN copy under `build.assetsPrefix`.
+const integrityPath = join(adapterDir, "integrity-manifest.json");
+if (existsSync(integrityPath)) {
+  const integrity: IntegrityManifest = JSON.parse(
+    readFileSync(integrityPath, "utf-8")
+  );
+  registerIntegrity((pathname) => {
+    const path = stripBase(pathname, base);
+    return (path !== undefined && integrity[path]) || integrity[pathname];
+  });
+}
+
+// In-memory cache for small static files -- only allocated when enabled.
+let memoryCache: StaticMemoryCache | undefined;
+if (staticMemoryCacheConfig) {
+  const cache = new StaticMemoryCache({
+    clientDir,
+    maxByteSize: staticMemoryCacheConfig.maxByteSize,
+    maxFileSize: staticMemoryCacheConfig.maxFileSize,
+  });
+  memoryCache = cache;
+  if (staticMemoryCacheConfig.preload) {
+    void cache.preload(
+      (function* () {
+        for (const meta of staticManifest.values()) {
+          yield [meta.filePath, responseHeaders(meta)];
+          for (const variant of Object.values(meta.encodings ?? {})) {
+            yield [variant.filePath, responseHeaders(meta, variant)];
+          }
+        }
+      })()
+    );
+  }
+}
+
+// Gated source maps are only served to requests carrying the token header.
+const sourceMapToken =
+  process.env.SOURCEMAP_TOKEN || (sourceMapGate ? sourceMapGate.token : "");
+
+// Prerendered 500 page, served for unhandled errors.
+const errorPage = staticManifest.get("/500.html");
+
+// Redirect table from Astro's `redirects` config. Builds from older adapter
+// versions have no table; Astro's SSR routes still handle those redirects.
+const redirectsPath = join(adapterDir, "redirects.json");
+const matchRedirect = createRedirectMatcher(
+  existsSync(redirectsPath)
+    ? (JSON.parse(readFileSync(redirectsPath, "utf-8")) as RedirectRule[])
+    : []
+);
+
 // Base-prefixed paths used for request routing. `base` may or may not
 // end with `/` depending on `trailingSlash` config, and Astro emits
 // both server-island and image endpoint URLs with `base` prepended.
 const serverIslandsPrefix = computeServerIslandsPrefix(base);
 const imageEndpointPath = computeImageEndpointPath(base, imageEndpointRoute);
 
+// Tracing -- only allocated when enabled.
+const tracer = tracingConfig
+  ? createTracer({
+      exporter: createOTLPExporter(
+        resolveOTLPOptions(tracingConfig, process.env)
+      ),
+      sampleRate: tracingConfig.sampleRate,
+    })
+  : undefined;
+
+type RenderOptions = NonNullable<Parameters<typeof app.render>[1]>;
+
+/** Per-request state shared between `fetch` and the renders it triggers. */
+interface RequestContext {
+  clientAddress: string | undefined;
+  /** Added to `locals` of every render for this request. */
+  locals: Omit<AdapterLocals, "trace">;
+  /** Set once the request has been upgraded to a WebSocket. */
+  upgraded: boolean;
+}
+
+/**
+ * Answer Astro's fetch of a prerendered error page (e.g. `/404.html`) from
+ * the static manifest rather than over the network. Astro sets the status.
+ */
+function fetchErrorPage(url: string): Promise<Response> {
+  const path = stripBase(new URL(url).pathname, base);
+  const meta = path === undefined ? undefined : staticManifest.get(path);
+  if (!meta) {
+    return Promise.reject(new Error(`No prerendered error page at ${url}`));
+  }
+  return Promise.resolve(
+    serveErrorPage(new Request(url), meta, 200, clientDir)
+  );
+}
+
+/**
+ * Render through Astro, passing the request's client address and locals.
+ * With tracing, the render runs in an `astro.render` span whose context is
+ * passed to the page as `locals.trace`.
+ */
+function render(
+  request: Request,
+  routeData: RenderOptions["routeData"],
+  context?: RequestContext
+): Promise<Response> {
+  const options: RenderOptions = {
+    addCookieHeader: true,
+    prerenderedErrorPageFetch: fetchErrorPage,
+  };
+  if (routeData) options.routeData = routeData;
+  if (context) {
+    options.clientAddress = context.clientAddress;
+    options.locals = { ...context.locals };
+  }
+  if (!tracer) return app.render(request, options);
+
+  const attributes: Record<string, AttributeValue> = {};
+  if (routeData) attributes["http.route"] = routeData.route;
+  return tracer.startActiveSpan("astro.render", { attributes }, (span) => {
+    const trace: TraceContext = {
+      ...span.context,
+      traceparent: formatTraceparent(span.context),
+    };
+    options.locals = { ...options.locals, trace };
+    return app.render(request, options);
+  });
+}
+
 /** SSR request handler. */
 export const handler = async (request: Request): Promise<Response> => {
-  const routeData = app.match(request);
-  if (!routeData) {
-    return app.render(request, { addCookieHeader: true });
-  }
-  return app.render(request, { addCookieHeader: true, routeData });
+  return render(request, app.match(request));
 };
 
 export default handler;
@@ -106,7 +335,13 @@ export default handler;
 let isr: ISRHandler | undefined;
 if (isrConfig) {
   const buildId = readFileSync(join(adapterDir, "build-id"), "utf-8").trim();
-  const cacheDir = isrConfig.cacheDir ?? join(adapterDir, "isr-cache");
+  // Each worker gets its own cache dir so workers never vacuum or overwrite
+  // each other's index.
+  const rootCacheDir = isrConfig.cacheDir ?? join(adapterDir, "isr-cache");
+  const cacheDir =
+    workerId === undefined
+      ? rootCacheDir
+      : join(rootCacheDir, `worker-${workerId}`);
   isr = createISRHandler({
     origin: handler,
     maxByteSize: isrConfig.maxByteSize,
@@ -114,23 +349,41 @@ if (isrConfig) {
     buildId,
     preFillMemoryCache: isrConfig.preFillMemoryCache,
     imageEndpointRoute: imageEndpointPath,
+    tracer,
   });
-  registerCache(isr.cache);
+  // Worker expirations are relayed to the other workers by the primary.
+  registerCache(
+    workerId === undefined ? isr.cache : connectWorkerCache(isr.cache, logger)
+  );
 }
 
-// Graceful shutdown -- flush ISR cache to disk before exit.
-if (isr) {
-  const shutdown = () => {
-    isr
-      ?.shutdown()
-      .catch((err: unknown) => {
-        console.error("ISR cache flush failed during shutdown:", err);
+const socket = resolveSocketOptions(socketConfig, process.env);
+
+// Built-in liveness/readiness probes -- only allocated when enabled.
+const matchHealth = healthConfig
+  ? createHealthHandler({
+      ...healthConfig,
+      checks: () => ({
+        isrCache: isr?.isReady() ?? true,
+        draining: isDraining(),
+      }),
+    })
+  : undefined;
+
+// Prometheus metrics -- only collected when enabled. With a metrics port the
+// endpoint is served by its own listener and not by the main server.
+const metrics = metricsConfig ? createMetrics(isr?.stats) : undefined;
+const metricsPort = metricsConfig
+  ? resolveMetricsPort(metricsConfig.port, process.env, workerId)
+  : 0;
+const matchMetrics =
+  metrics && metricsConfig
+    ? createMetricsHandler({
+        path: metricsConfig.path,
+        token: process.env.METRICS_TOKEN || metricsConfig.token,
+        metrics,
       })
-      .finally(() => process.exit(0));
-  };
-  process.on("SIGTERM", shutdown);
-  process.on("SIGINT", shutdown);
-}
+    : undefined;
 
 const port = Number(process.env.PORT || configPort || 4321);
 const host =
@@ -141,65 +394,326 @@ const host =
       : "localhost"
     : configHost);
 
-Bun.serve({
-  port,
-  hostname: host,
-  async fetch(request, server) {
-    const url = new URL(request.url);
-    const pathname = decodeURIComponent(url.pathname);
+const tls = resolveTLSOptions(tlsConfig, process.env);
+const httpRedirectPort = tls
+  ? Number(process.env.HTTP_REDIRECT_PORT || configHttpRedirectPort || 0)
+  : 0;
 
-    if (request.method === "GET" || request.method === "HEAD") {
-      const meta = staticManifest.get(pathname);
+/**
+ * Route a request through redirects, the static manifest, and SSR/ISR.
+ * Errors propagate to the boundary in `fetch`.
+ */
+async function handleRequest(
+  request: Request,
+  context: RequestContext
+): Promise<Response> {
+  const url = new URL(request.url);
 
-      if (meta) {
-        const headers = new Headers(meta.headers);
-        headers.set(CACHE_HEADER, "STATIC");
+  // Probes skip redirects, the manifest, and SSR entirely.
+  const probe = matchHealth?.(url.pathname, request.method);
+  if (probe) return probe;
+  if (!metricsPort) {
+    const scrape = matchMetrics?.(request, url.pathname);
+    if (scrape) return scrape;
+  }
 
-        if (request.headers.get("if-none-match") === headers.get("etag")) {
-          headers.delete("Content-Length");
-          headers.delete("Content-Type");
-          return new Response(null, { status: 304, headers });
-        }
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(url.pathname);
+  } catch {
+    // Malformed percent-encoding is a client error, not a server one.
+    return new Response("Bad Request", { status: 400 });
+  }
+  const isGetOrHead = request.method === "GET" || request.method === "HEAD";
 
-        return new Response(Bun.file(join(clientDir, meta.filePath)), {
-          status: 200,
-          headers,
-        });
+  // Manifest keys are base-relative (e.g. `/docs/about` -> `/about`).
+  const staticPath = stripBase(pathname, base);
+
+  // Configured redirects win over static files and SSR routes.
+  if (staticPath !== undefined) {
+    const redirect = matchRedirect(staticPath, request.method);
+    if (redirect) return redirect;
+  }
+
+  if (staticPath !== undefined && isGetOrHead) {
+    const meta = staticManifest.get(staticPath);
+
+    if (meta) {
+      if (!sourceMapGate || !staticPath.endsWith(".map")) {
+        return serveStatic(request, meta, clientDir, memoryCache);
+      }
+      // Gated source map -- denied requests fall through as if it did not exist.
+      if (hasSourceMapAccess(request, sourceMapGate.header, sourceMapToken)) {
+        const response = serveStatic(request, meta, clientDir, memoryCache);
+        response.headers.set("Cache-Control", "private, no-store");
+        return response;
       }
     }
+  }
 
-    // Extract client address from Bun's server API.
-    const socketAddress = server.requestIP(request);
-    const clientAddress = socketAddress?.address;
-
-    // Server island requests bypass ISR (encrypted query params are unique per request).
-    if (pathname.startsWith(serverIslandsPrefix)) {
-      const response = await app.render(request, {
-        addCookieHeader: true,
-        routeData: app.match(request),
-        clientAddress,
+  // Redirect the non-canonical trailing-slash form of a prerendered page.
+  if (staticPath !== undefined) {
+    const canonical = canonicalPagePath(
+      staticPath,
+      trailingSlash,
+      staticManifest
+    );
+    if (canonical !== undefined) {
+      const location = url.pathname.endsWith("/")
+        ? url.pathname.slice(0, -1)
+        : `${url.pathname}/`;
+      return new Response(null, {
+        status: isGetOrHead ? 301 : 308,
+        headers: { Location: `${location}${url.search}` },
       });
-      response.headers.set(CACHE_HEADER, "BYPASS");
-      return response;
     }
+  }
 
-    // ISR disabled or non-GET -- passthrough to SSR.
-    if (!isr || request.method !== "GET") {
-      const routeData = app.match(request);
-      const response = await app.render(request, {
-        addCookieHeader: true,
-        routeData,
-        clientAddress,
-      });
-      response.headers.set(CACHE_HEADER, "BYPASS");
+  // Unmatched requests still go through Astro so its 404 handling (and
+  // middleware) applies; a prerendered `404.html` is read via `fetchErrorPage`.
+  const routeData = app.match(request);
+
+  // Server island requests bypass ISR (encrypted query params are unique per request).
+  if (pathname.startsWith(serverIslandsPrefix)) {
+    const response = await render(request, routeData, context);
+    response.headers.set(CACHE_HEADER, "BYPASS");
+    return response;
+  }
+
+  const isUpgrade =
+    request.headers.get("upgrade")?.toLowerCase() === "websocket";
+
+  // ISR disabled, non-GET, or WebSocket upgrade -- passthrough to SSR.
+  if (!isr || request.method !== "GET" || isUpgrade) {
+    const response = await render(request, routeData, context);
+    response.headers.set(CACHE_HEADER, "BYPASS");
+    return response;
+  }
+
+  const cacheKey = pathname.startsWith(imageEndpointPath)
+    ? buildImageCacheKey(pathname, url.searchParams)
+    : pathname;
+  // Misses and revalidations render with this request's client address and
+  // locals, like SSR passthrough.
+  return isr(request, cacheKey, (request) =>
+    render(request, routeData, context)
+  );
+}
+
+// Native routes answer static files without entering `fetch`. Redirect
+// sources are left out so the redirect table keeps precedence, and gated
+// source maps so the token check runs.
+const nativeRoutes = nativeStaticRoutesConfig
+  ? await createNativeStaticRoutes(staticManifest, {
+      base,
+      clientDir,
+      maxFileSize: nativeStaticRoutesConfig.maxFileSize,
+      exclude: (path) =>
+        matchRedirect(path, "GET") !== undefined ||
+        (sourceMapGate !== false && path.endsWith(".map")),
+    })
+  : undefined;
+
+if (socket) await removeStaleSocket(socket.path);
+
+/**
+ * Top-level error boundary: log and answer with the prerendered 500 page
+ * rather than Bun's default error response.
+ */
+async function handleWithErrorBoundary(
+  request: Request,
+  context: RequestContext
+): Promise<Response> {
+  try {
+    return await handleRequest(request, context);
+  } catch (err) {
+    logger.error(
+      `Unhandled error while serving ${request.method} ${request.url}: ${
+        err instanceof Error ? (err.stack ?? err.message) : String(err)
+      }`
+    );
+    if (errorPage) {
+      return serveErrorPage(request, errorPage, 500, clientDir);
+    }
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+/**
+ * Handle a request in a server span, continuing the trace of an incoming
+ * `traceparent` header. `5xx` responses mark the span as failed.
+ */
+function traceRequest(
+  tracer: Tracer,
+  request: Request,
+  context: RequestContext
+): Promise<Response> {
+  const url = new URL(request.url);
+  return tracer.startActiveSpan(
+    request.method,
+    {
+      kind: "server",
+      parent: parseTraceparent(request.headers.get("traceparent")),
+      attributes: {
+        "http.request.method": request.method,
+        "url.path": url.pathname,
+        "url.scheme": url.protocol.slice(0, -1),
+      },
+    },
+    async (span) => {
+      const response = await handleWithErrorBoundary(request, context);
+      span.setAttribute("http.response.status_code", response.status);
+      const cache = response.headers.get(CACHE_HEADER);
+      if (cache) span.setAttribute("astro.cache", cache);
+      if (response.status >= 500) span.setError(`HTTP ${response.status}`);
       return response;
     }
+  );
+}
+
+const accessLog = accessLogConfig
+  ? createAccessLogger(accessLogConfig, logger)
+  : undefined;
+
+// Forwarding headers are only honored from trusted proxies.
+const trustedProxies = resolveTrustedProxies(trustedProxiesConfig, process.env);
+const proxyTrust = trustedProxies
+  ? createProxyTrust(trustedProxies)
+  : undefined;
 
-    const cacheKey = pathname.startsWith(imageEndpointPath)
-      ? buildImageCacheKey(pathname, url.searchParams)
-      : pathname;
-    return isr(request, cacheKey);
+const server = Bun.serve<WebSocketData>({
+  ...(socket
+    ? { unix: socket.path }
+    : { port, hostname: host, reusePort: workerId !== undefined }),
+  // A single certificate is passed as-is; several are selected via SNI.
+  tls: tls?.length === 1 ? tls[0] : tls,
+  routes: nativeRoutes,
+  websocket: websocketHandler,
+  async fetch(incoming, server) {
+    const peer = server.requestIP(incoming)?.address;
+    const { request, clientAddress } = proxyTrust
+      ? resolveForwarded(incoming, peer, proxyTrust)
+      : { request: incoming, clientAddress: peer };
+    if (request !== incoming) registerIncomingRequest(request, incoming);
+    const context: RequestContext = {
+      clientAddress,
+      locals: {
+        ...createWebSocketLocals(server, incoming, () => {
+          context.upgraded = true;
+        }),
+        runtime: createRuntimeLocals(server, incoming),
+      },
+      upgraded: false,
+    };
+
+    const start = performance.now();
+    const response = await (tracer
+      ? traceRequest(tracer, request, context)
+      : handleWithErrorBoundary(request, context));
+    // The connection now belongs to the WebSocket; there is nothing to send.
+    if (context.upgraded) return undefined;
+    if (accessLog || metrics) {
+      const duration = performance.now() - start;
+      accessLog?.log(request, response, clientAddress, duration);
+      metrics?.observe(response, duration);
+    }
+    return response;
   },
 });
+registerServer(server);
+
+if (socket) {
+  applySocketPermissions(socket);
+  logger.info(
+    `Server listening on unix:${socket.path} (${tls ? "https" : "http"})`
+  );
+} else {
+  logger.info(
+    `Server listening on ${tls ? "https" : "http"}://${host}:${port}`
+  );
+}
+
+let redirectServer: Server<undefined> | undefined;
+if (httpRedirectPort) {
+  redirectServer = Bun.serve({
+    port: httpRedirectPort,
+    hostname: host,
+    reusePort: workerId !== undefined,
+    fetch: createHttpsRedirect(port),
+  });
+  logger.info(
+    `Redirecting http://${host}:${httpRedirectPort} to HTTPS on port ${port}`
+  );
+}
+
+let metricsServer: Server<undefined> | undefined;
+if (matchMetrics && metricsPort) {
+  metricsServer = Bun.serve({
+    port: metricsPort,
+    hostname: host,
+    fetch(request) {
+      const url = new URL(request.url);
+      return (
+        matchMetrics(request, url.pathname) ??
+        new Response("Not Found", { status: 404 })
+      );
+    },
+  });
+  logger.info(`Metrics listening on http://${host}:${metricsPort}`);
+}
+
+const { drainDelay, shutdownTimeout } = resolveShutdownTimings(
+  { drainDelay: configDrainDelay, shutdownTimeout: configShutdownTimeout },
+  process.env
+);
+
+/**
+ * Graceful shutdown: report not-ready for `drainDelay` while still accepting
+ * connections, stop accepting connections, wait for in-flight requests (up
+ * to `shutdownTimeout`), run shutdown hooks, flush the ISR cache and the
+ * access log to disk, export queued spans, and remove the socket file before
+ * exit.
+ */
+async function shutdown(signal: NodeJS.Signals): Promise<void> {
+  if (isDraining()) return;
+  startDraining();
+  logger.info(`Received ${signal}, draining in-flight requests`);
+  if (drainDelay > 0) {
+    // Keep listening so load balancers can see the failing readiness probe.
+    logger.info(`Reporting not-ready for ${drainDelay}ms before closing`);
+    await Bun.sleep(drainDelay);
+  }
+
+  const servers = [server, redirectServer, metricsServer].filter(
+    (s): s is Server<undefined> => s !== undefined
+  );
+  const drained = await Promise.race([
+    Promise.all(servers.map((s) => s.stop())).then(() => true),
+    Bun.sleep(shutdownTimeout).then(() => false),
+  ]);
+  if (!drained) {
+    logger.warn(
+      `Requests still in flight after ${shutdownTimeout}ms, closing connections`
+    );
+    await Promise.all(servers.map((s) => s.stop(true)));
+  }
+
+  for (const err of await runShutdownHooks()) {
+    logger.error(
+      `Shutdown hook failed: ${
+        err instanceof Error ? (err.stack ?? err.message) : String(err)
+      }`
+    );
+  }
+
+  await isr?.shutdown().catch((err: unknown) => {
+    console.error("ISR cache flush failed during shutdown:", err);
+  });
+  await accessLog?.close();
+  await tracer?.flush();
+  if (socket) removeSocket(socket.path);
+  process.exit(0);
+}
 
-logger.info(`Server listening on http://${host}:${port}`);
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
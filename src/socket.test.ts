@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import { existsSync, mkdirSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  applySocketPermissions,
+  removeSocket,
+  removeStaleSocket,
+  resolveSocketOptions,
+} from "./socket.ts";
+
+function testDir() {
+  const dir = join(
+    tmpdir(),
+    `socket-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  );
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+describe("resolveSocketOptions", () => {
+  test("returns undefined without a socket path", () => {
+    expect(resolveSocketOptions(false, {})).toBeUndefined();
+  });
+
+  test("uses the configured path and permissions", () => {
+    expect(
+      resolveSocketOptions({ path: "/run/a.sock", permissions: 0o660 }, {})
+    ).toEqual({ path: "/run/a.sock", permissions: 0o660 });
+  });
+
+  test("environment variables override the config", () => {
+    expect(
+      resolveSocketOptions(
+        { path: "/run/a.sock", permissions: 0o600 },
+        { SOCKET_PATH: "/run/b.sock", SOCKET_PERMISSIONS: "666" }
+      )
+    ).toEqual({ path: "/run/b.sock", permissions: 0o666 });
+  });
+
+  test("rejects non-octal permissions", () => {
+    expect(() =>
+      resolveSocketOptions(false, {
+        SOCKET_PATH: "/run/a.sock",
+        SOCKET_PERMISSIONS: "rw",
+      })
+    ).toThrow("Invalid SOCKET_PERMISSIONS");
+  });
+});
+
+describe("removeStaleSocket", () => {
+  test("ignores a missing path", async () => {
+    await removeStaleSocket(join(testDir(), "missing.sock"));
+  });
+
+  test("removes a socket nobody listens on", async () => {
+    const path = join(testDir(), "stale.sock");
+    // A killed process leaves its socket file behind; a clean stop removes it.
+    const child = Bun.spawn(
+      [
+        process.execPath,
+        "-e",
+        `Bun.serve({ unix: ${JSON.stringify(path)}, fetch: () => new Response() }); console.log("ready");`,
+      ],
+      { stdout: "pipe" }
+    );
+    const reader = child.stdout.getReader();
+    await reader.read();
+    child.kill("SIGKILL");
+    await child.exited;
+    expect(existsSync(path)).toBe(true);
+
+    await removeStaleSocket(path);
+    expect(existsSync(path)).toBe(false);
+  });
+
+  test("refuses a socket that is in use", async () => {
+    const path = join(testDir(), "live.sock");
+    const server = Bun.serve({ unix: path, fetch: () => new Response("ok") });
+    try {
+      await expect(removeStaleSocket(path)).rejects.toThrow("already in use");
+      expect(existsSync(path)).toBe(true);
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  test("refuses a regular file", async () => {
+    const path = join(testDir(), "not-a-socket");
+    writeFileSync(path, "data");
+    await expect(removeStaleSocket(path)).rejects.toThrow("not a socket");
+    expect(existsSync(path)).toBe(true);
+  });
+});
+
+describe("socket permissions and removal", () => {
+  test("applies the configured mode and removes the file", async () => {
+    const path = join(testDir(), "mode.sock");
+    const server = Bun.serve({ unix: path, fetch: () => new Response("ok") });
+    try {
+      applySocketPermissions({ path, permissions: 0o660 });
+      expect(statSync(path).mode & 0o777).toBe(0o660);
+    } finally {
+      server.stop(true);
+    }
+    removeSocket(path);
+    expect(existsSync(path)).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import { chmodSync, lstatSync, rmSync } from "node:fs";
+import type { UnixSocketOptions } from "./types.ts";
+
+/**
+ * Resolve the Unix socket to listen on. `SOCKET_PATH` and
+ * `SOCKET_PERMISSIONS` (octal, e.g. `660`) override the configured values.
+ * Returns `undefined` to listen on a TCP port instead.
+ */
+export function resolveSocketOptions(
+  config: false | UnixSocketOptions,
+  env: Record<string, string | undefined>
+): UnixSocketOptions | undefined {
+  const path = env.SOCKET_PATH || (config ? config.path : undefined);
+  if (!path) return undefined;
+
+  const permissions = env.SOCKET_PERMISSIONS
+    ? Number.parseInt(env.SOCKET_PERMISSIONS, 8)
+    : config
+      ? config.permissions
+      : undefined;
+  if (permissions !== undefined && Number.isNaN(permissions)) {
+    throw new Error(
+      `Invalid SOCKET_PERMISSIONS "${env.SOCKET_PERMISSIONS}": expected an octal mode such as 660`
+    );
+  }
+  return { path, permissions };
+}
+
+/** Whether a server is accepting connections on the socket at `path`. */
+async function isSocketInUse(path: string): Promise<boolean> {
+  try {
+    const socket = await Bun.connect({ unix: path, socket: { data() {} } });
+    socket.end();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Remove a socket file left behind by a previous process that did not shut
+ * down cleanly. Refuses to touch files that are not sockets and sockets
+ * another server is still listening on.
+ */
+export async function removeStaleSocket(path: string): Promise<void> {
+  let isSocket: boolean;
+  try {
+    isSocket = lstatSync(path).isSocket();
+  } catch {
+    return; // Nothing to clean up.
+  }
+
+  if (!isSocket) {
+    throw new Error(
+      `Cannot listen on ${path}: file exists and is not a socket`
+    );
+  }
+  if (await isSocketInUse(path)) {
+    throw new Error(`Cannot listen on ${path}: socket is already in use`);
+  }
+  rmSync(path, { force: true });
+}
+
+/** Apply the configured file mode to a freshly bound socket. */
+export function applySocketPermissions(options: UnixSocketOptions): void {
+  if (options.permissions !== undefined) {
+    chmodSync(options.path, options.permissions);
+  }
+}
+
+/** Remove the socket file on shutdown. Errors are ignored. */
+export function removeSocket(path: string): void {
+  try {
+    rmSync(path, { force: true });
+  } catch {
+    // Best effort -- a leftover file is cleaned up on the next start.
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { StaticMemoryCache } from "./static-cache.ts";
+
+function testDir() {
+  const dir = join(
+    tmpdir(),
+    `static-cache-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  );
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+function headersFor(size: number) {
+  return new Headers({ "content-length": String(size) });
+}
+
+describe("StaticMemoryCache", () => {
+  test("preload — caches files with a headers snapshot", async () => {
+    const clientDir = testDir();
+    writeFileSync(join(clientDir, "a.css"), "body{}");
+    const cache = new StaticMemoryCache({
+      clientDir,
+      maxByteSize: 1024,
+      maxFileSize: 1024,
+    });
+
+    const headers = headersFor(6);
+    await cache.preload([["a.css", headers]]);
+    headers.set("x-mutated", "yes");
+
+    const cached = cache.get("a.css");
+    expect(new TextDecoder().decode(cached?.body)).toBe("body{}");
+    expect(cached?.headers.get("x-mutated")).toBeNull();
+  });
+
+  test("admit — loads in the background", async () => {
+    const clientDir = testDir();
+    writeFileSync(join(clientDir, "a.css"), "body{}");
+    const cache = new StaticMemoryCache({
+      clientDir,
+      maxByteSize: 1024,
+      maxFileSize: 1024,
+    });
+
+    cache.admit("a.css", headersFor(6));
+    expect(cache.get("a.css")).toBeUndefined();
+    await Bun.sleep(20);
+    expect(cache.get("a.css")).toBeDefined();
+  });
+
+  test("skips files over the per-file limit", async () => {
+    const clientDir = testDir();
+    writeFileSync(join(clientDir, "big.js"), "x".repeat(100));
+    const cache = new StaticMemoryCache({
+      clientDir,
+      maxByteSize: 1024,
+      maxFileSize: 50,
+    });
+
+    await cache.preload([["big.js", headersFor(100)]]);
+    expect(cache.get("big.js")).toBeUndefined();
+  });
+
+  test("stops admitting once the byte budget is spent", async () => {
+    const clientDir = testDir();
+    writeFileSync(join(clientDir, "a.txt"), "x".repeat(60));
+    writeFileSync(join(clientDir, "b.txt"), "x".repeat(60));
+    const cache = new StaticMemoryCache({
+      clientDir,
+      maxByteSize: 100,
+      maxFileSize: 100,
+    });
+
+    await cache.preload([
+      ["a.txt", headersFor(60)],
+      ["b.txt", headersFor(60)],
+    ]);
+    expect(cache.get("a.txt")).toBeDefined();
+    expect(cache.get("b.txt")).toBeUndefined();
+  });
+
+  test("releases the reservation when a file cannot be read", async () => {
+    const clientDir = testDir();
+    writeFileSync(join(clientDir, "ok.txt"), "x".repeat(60));
+    const cache = new StaticMemoryCache({
+      clientDir,
+      maxByteSize: 100,
+      maxFileSize: 100,
+    });
+
+    await cache.preload([
+      ["missing.txt", headersFor(60)],
+      ["ok.txt", headersFor(60)],
+    ]);
+    expect(cache.get("missing.txt")).toBeUndefined();
+    expect(cache.get("ok.txt")).toBeDefined();
+  });
+});
@@ -0,0 +1,100 @@
+import { join } from "node:path";
+import debug from "debug";
+
+const log = debug("@wyattjoh/astro-bun-adapter:static-cache");
+
+/** A static file held in memory alongside its ready-to-send 200 headers. */
+export interface CachedStaticFile {
+  body: Uint8Array;
+  /** Response headers snapshot. Never mutated — `Response` copies it. */
+  headers: Headers;
+}
+
+/** Configuration for the in-memory static file cache. */
+interface StaticMemoryCacheOptions {
+  clientDir: string;
+  maxByteSize: number;
+  maxFileSize: number;
+}
+
+/**
+ * Byte-budgeted in-memory cache for small, hot static files. Files are
+ * admitted on first hit (or up front via {@link preload}) until the budget is
+ * spent; there is no eviction, so the first files to be requested keep their
+ * slot for the lifetime of the process.
+ */
+export class StaticMemoryCache {
+  private readonly entries = new Map<string, CachedStaticFile>();
+  /** Files currently being read (their bytes are already reserved). */
+  private readonly loading = new Set<string>();
+  private currentBytes = 0;
+
+  private readonly clientDir: string;
+  private readonly maxByteSize: number;
+  private readonly maxFileSize: number;
+
+  /** @param options - Cache configuration (client dir and byte limits). */
+  constructor(options: StaticMemoryCacheOptions) {
+    this.clientDir = options.clientDir;
+    this.maxByteSize = options.maxByteSize;
+    this.maxFileSize = options.maxFileSize;
+  }
+
+  /**
+   * Look up a cached file by its path relative to the client dir.
+   * @param filePath - Relative file path (e.g. `"favicon.svg"`).
+   */
+  get(filePath: string): CachedStaticFile | undefined {
+    return this.entries.get(filePath);
+  }
+
+  /**
+   * Start loading a file in the background if it fits the per-file limit
+   * and the remaining budget. Safe to call on every miss.
+   * @param filePath - Relative file path.
+   * @param headers - Full response headers for a 200 of this file.
+   */
+  admit(filePath: string, headers: Headers): void {
+    void this.load(filePath, headers);
+  }
+
+  /**
+   * Load files one at a time until the budget is spent.
+   * @param files - Relative file paths paired with their 200 headers.
+   */
+  async preload(files: Iterable<[string, Headers]>): Promise<void> {
+    for (const [filePath, headers] of files) {
+      if (this.currentBytes >= this.maxByteSize) break;
+      await this.load(filePath, headers);
+    }
+    log(
+      `Preloaded ${this.entries.size} static files (${this.currentBytes} bytes)`
+    );
+  }
+
+  /** Read a file into memory, reserving its bytes up front. */
+  private async load(filePath: string, headers: Headers): Promise<void> {
+    if (this.entries.has(filePath) || this.loading.has(filePath)) return;
+
+    const size = Number(headers.get("content-length"));
+    if (!Number.isFinite(size) || size > this.maxFileSize) return;
+    if (this.currentBytes + size > this.maxByteSize) return;
+
+    // Snapshot before awaiting so later mutations by the caller don't leak in.
+    const snapshot = new Headers(headers);
+    this.currentBytes += size;
+    this.loading.add(filePath);
+    try {
+      const body = await Bun.file(join(this.clientDir, filePath)).bytes();
+      // Account for the bytes actually read in case the file changed size.
+      this.currentBytes += body.byteLength - size;
+      this.entries.set(filePath, { body, headers: snapshot });
+      log(`Cached static file in memory: ${filePath} (${size} bytes)`);
+    } catch {
+      // Unreadable file — release the reservation and keep serving from disk.
+      this.currentBytes -= size;
+    } finally {
+      this.loading.delete(filePath);
+    }
+  }
+}
@@ -0,0 +1,631 @@
+import { describe, expect, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  canonicalPagePath,
+  createNativeStaticRoutes,
+  etagListMatches,
+  evaluatePreconditions,
+  hasSourceMapAccess,
+  negotiateEncoding,
+  parseRange,
+  serveStatic,
+} from "./static.ts";
+import { StaticMemoryCache } from "./static-cache.ts";
+import type { ManifestEntry } from "./types.ts";
+
+function testDir() {
+  const dir = join(
+    tmpdir(),
+    `static-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  );
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+function request(headers: Record<string, string> = {}, method = "GET") {
+  return new Request("http://localhost/app.js", { headers, method });
+}
+
+const LAST_MODIFIED = "Wed, 01 Jan 2025 00:00:00 GMT";
+
+/** Write `app.js` plus a fake `.br` sibling and return a matching entry. */
+function makeEntry(clientDir: string): ManifestEntry {
+  writeFileSync(join(clientDir, "app.js"), "identity body");
+  writeFileSync(join(clientDir, "app.js.br"), "brotli body");
+  return {
+    headers: {
+      etag: '"identity"',
+      "content-length": "13",
+      "content-type": "text/javascript",
+      "last-modified": LAST_MODIFIED,
+      vary: "Accept-Encoding",
+    },
+    filePath: "app.js",
+    encodings: {
+      br: {
+        headers: {
+          etag: '"brotli"',
+          "content-length": "11",
+          "content-encoding": "br",
+        },
+        filePath: "app.js.br",
+      },
+    },
+  };
+}
+
+describe("negotiateEncoding", () => {
+  test("returns undefined without an Accept-Encoding header", () => {
+    expect(negotiateEncoding(null, ["br", "gzip"])).toBeUndefined();
+  });
+
+  test("prefers br over gzip when weighted equally", () => {
+    expect(negotiateEncoding("gzip, deflate, br", ["gzip", "br"])).toBe("br");
+  });
+
+  test("honors q-values over server preference", () => {
+    expect(negotiateEncoding("br;q=0.5, gzip", ["br", "gzip"])).toBe("gzip");
+  });
+
+  test("skips codings with q=0", () => {
+    expect(
+      negotiateEncoding("br;q=0, gzip;q=0", ["br", "gzip"])
+    ).toBeUndefined();
+  });
+
+  test("wildcard accepts any available coding", () => {
+    expect(negotiateEncoding("*", ["gzip"])).toBe("gzip");
+    expect(negotiateEncoding("br, *;q=0", ["gzip"])).toBeUndefined();
+  });
+
+  test("treats x-gzip as gzip", () => {
+    expect(negotiateEncoding("x-gzip", ["gzip"])).toBe("gzip");
+  });
+
+  test("an explicitly preferred identity wins", () => {
+    expect(negotiateEncoding("gzip;q=0.5, identity", ["gzip"])).toBeUndefined();
+  });
+
+  test("ignores codings that were not precompressed", () => {
+    expect(negotiateEncoding("zstd", ["br", "gzip"])).toBeUndefined();
+  });
+});
+
+describe("serveStatic", () => {
+  test("serves the identity file when no coding is accepted", async () => {
+    const clientDir = testDir();
+    const res = serveStatic(request(), makeEntry(clientDir), clientDir);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-encoding")).toBeNull();
+    expect(res.headers.get("vary")).toBe("Accept-Encoding");
+    expect(res.headers.get("x-astro-cache")).toBe("STATIC");
+    expect(await res.text()).toBe("identity body");
+  });
+
+  test("serves the negotiated variant with its own headers", async () => {
+    const clientDir = testDir();
+    const res = serveStatic(
+      request({ "accept-encoding": "gzip, br" }),
+      makeEntry(clientDir),
+      clientDir
+    );
+
+    expect(res.headers.get("content-encoding")).toBe("br");
+    expect(res.headers.get("etag")).toBe('"brotli"');
+    expect(res.headers.get("content-length")).toBe("11");
+    expect(res.headers.get("content-type")).toBe("text/javascript");
+    expect(await res.arrayBuffer()).toEqual(
+      new TextEncoder().encode("brotli body").buffer
+    );
+  });
+
+  test("returns 304 when If-None-Match matches the selected variant", () => {
+    const clientDir = testDir();
+    const entry = makeEntry(clientDir);
+
+    const hit = serveStatic(
+      request({ "accept-encoding": "br", "if-none-match": '"brotli"' }),
+      entry,
+      clientDir
+    );
+    expect(hit.status).toBe(304);
+    expect(hit.headers.get("vary")).toBe("Accept-Encoding");
+    expect(hit.headers.get("content-length")).toBeNull();
+
+    // The identity ETag does not validate the brotli representation.
+    const miss = serveStatic(
+      request({ "accept-encoding": "br", "if-none-match": '"identity"' }),
+      entry,
+      clientDir
+    );
+    expect(miss.status).toBe(200);
+  });
+});
+
+describe("parseRange", () => {
+  test("parses a closed range", () => {
+    expect(parseRange("bytes=0-4", 10)).toEqual([{ start: 0, end: 4 }]);
+  });
+
+  test("parses open-ended and suffix ranges", () => {
+    expect(parseRange("bytes=5-", 10)).toEqual([{ start: 5, end: 9 }]);
+    expect(parseRange("bytes=-3", 10)).toEqual([{ start: 7, end: 9 }]);
+    expect(parseRange("bytes=-30", 10)).toEqual([{ start: 0, end: 9 }]);
+  });
+
+  test("clamps the end to the representation size", () => {
+    expect(parseRange("bytes=8-100", 10)).toEqual([{ start: 8, end: 9 }]);
+  });
+
+  test("parses multiple ranges and drops unsatisfiable ones", () => {
+    expect(parseRange("bytes=0-1, 20-30, 4-5", 10)).toEqual([
+      { start: 0, end: 1 },
+      { start: 4, end: 5 },
+    ]);
+  });
+
+  test("returns unsatisfiable when no range overlaps", () => {
+    expect(parseRange("bytes=10-20", 10)).toBe("unsatisfiable");
+    expect(parseRange("bytes=-0", 10)).toBe("unsatisfiable");
+    expect(parseRange("bytes=0-", 0)).toBe("unsatisfiable");
+  });
+
+  test("ignores malformed headers and unknown units", () => {
+    expect(parseRange("items=0-1", 10)).toBeUndefined();
+    expect(parseRange("bytes=5-2", 10)).toBeUndefined();
+    expect(parseRange("bytes=abc", 10)).toBeUndefined();
+    expect(parseRange("bytes=-", 10)).toBeUndefined();
+  });
+});
+
+describe("serveStatic ranges", () => {
+  test("serves a single range as 206 with Content-Range", async () => {
+    const clientDir = testDir();
+    const res = serveStatic(
+      request({ range: "bytes=0-7" }),
+      makeEntry(clientDir),
+      clientDir
+    );
+
+    expect(res.status).toBe(206);
+    expect(res.headers.get("content-range")).toBe("bytes 0-7/13");
+    expect(res.headers.get("content-length")).toBe("8");
+    expect(await res.text()).toBe("identity");
+  });
+
+  test("ranges address the identity file even when a coding is accepted", async () => {
+    const clientDir = testDir();
+    const res = serveStatic(
+      request({ range: "bytes=9-", "accept-encoding": "br" }),
+      makeEntry(clientDir),
+      clientDir
+    );
+
+    expect(res.status).toBe(206);
+    expect(res.headers.get("content-encoding")).toBeNull();
+    expect(await res.text()).toBe("body");
+  });
+
+  test("serves multiple ranges as multipart/byteranges", async () => {
+    const clientDir = testDir();
+    const res = serveStatic(
+      request({ range: "bytes=0-1, 9-12" }),
+      makeEntry(clientDir),
+      clientDir
+    );
+
+    expect(res.status).toBe(206);
+    const contentType = res.headers.get("content-type") ?? "";
+    const boundary = contentType.split("boundary=")[1];
+    expect(contentType).toStartWith("multipart/byteranges; boundary=");
+
+    const body = await res.text();
+    expect(res.headers.get("content-length")).toBe(
+      String(new TextEncoder().encode(body).byteLength)
+    );
+    expect(body).toBe(
+      `--${boundary}\r\nContent-Type: text/javascript\r\nContent-Range: bytes 0-1/13\r\n\r\nid\r\n` +
+        `--${boundary}\r\nContent-Type: text/javascript\r\nContent-Range: bytes 9-12/13\r\n\r\nbody\r\n` +
+        `--${boundary}--\r\n`
+    );
+  });
+
+  test("returns 416 for unsatisfiable ranges", () => {
+    const clientDir = testDir();
+    const res = serveStatic(
+      request({ range: "bytes=100-200" }),
+      makeEntry(clientDir),
+      clientDir
+    );
+
+    expect(res.status).toBe(416);
+    expect(res.headers.get("content-range")).toBe("bytes */13");
+  });
+
+  test("If-Range with a stale ETag serves the full file", async () => {
+    const clientDir = testDir();
+    const entry = makeEntry(clientDir);
+
+    const stale = serveStatic(
+      request({ range: "bytes=0-1", "if-range": '"other"' }),
+      entry,
+      clientDir
+    );
+    expect(stale.status).toBe(200);
+    expect(await stale.text()).toBe("identity body");
+
+    const fresh = serveStatic(
+      request({ range: "bytes=0-1", "if-range": '"identity"' }),
+      entry,
+      clientDir
+    );
+    expect(fresh.status).toBe(206);
+  });
+
+  test("ignores Range on HEAD requests", () => {
+    const clientDir = testDir();
+    const res = serveStatic(
+      request({ range: "bytes=0-1" }, "HEAD"),
+      makeEntry(clientDir),
+      clientDir
+    );
+    expect(res.status).toBe(200);
+  });
+});
+
+describe("etagListMatches", () => {
+  test("matches a tag within a comma-separated list", () => {
+    expect(etagListMatches('"a", "b"', '"b"', true)).toBe(true);
+    expect(etagListMatches('"a", "b"', '"c"', true)).toBe(false);
+  });
+
+  test("wildcard matches any current representation", () => {
+    expect(etagListMatches("*", '"a"', false)).toBe(true);
+    expect(etagListMatches("*", null, false)).toBe(false);
+  });
+
+  test("weak comparison ignores the W/ prefix", () => {
+    expect(etagListMatches('W/"a"', '"a"', true)).toBe(true);
+  });
+
+  test("strong comparison rejects weak tags", () => {
+    expect(etagListMatches('W/"a"', '"a"', false)).toBe(false);
+    expect(etagListMatches('"a"', '"a"', false)).toBe(true);
+  });
+
+  test("tolerates commas inside quoted tags", () => {
+    expect(etagListMatches('"a,b", "c"', '"a,b"', true)).toBe(true);
+  });
+});
+
+describe("evaluatePreconditions", () => {
+  const headers = new Headers({
+    etag: '"v1"',
+    "last-modified": LAST_MODIFIED,
+  });
+  const conditional = (h: Record<string, string>, method = "GET") =>
+    evaluatePreconditions(request(h, method), headers);
+
+  test("returns undefined without conditional headers", () => {
+    expect(conditional({})).toBeUndefined();
+  });
+
+  test("If-None-Match lists and weak tags yield 304", () => {
+    expect(conditional({ "if-none-match": '"v0", W/"v1"' })).toBe(304);
+    expect(conditional({ "if-none-match": "*" })).toBe(304);
+    expect(conditional({ "if-none-match": '"v0"' })).toBeUndefined();
+  });
+
+  test("If-Modified-Since at or after Last-Modified yields 304", () => {
+    expect(conditional({ "if-modified-since": LAST_MODIFIED })).toBe(304);
+    expect(
+      conditional({ "if-modified-since": "Thu, 02 Jan 2025 00:00:00 GMT" })
+    ).toBe(304);
+    expect(
+      conditional({ "if-modified-since": "Tue, 31 Dec 2024 00:00:00 GMT" })
+    ).toBeUndefined();
+  });
+
+  test("If-None-Match takes precedence over If-Modified-Since", () => {
+    expect(
+      conditional({
+        "if-none-match": '"v0"',
+        "if-modified-since": LAST_MODIFIED,
+      })
+    ).toBeUndefined();
+  });
+
+  test("invalid dates are ignored", () => {
+    expect(conditional({ "if-modified-since": "not a date" })).toBeUndefined();
+  });
+
+  test("If-Unmodified-Since before Last-Modified yields 412", () => {
+    expect(
+      conditional({ "if-unmodified-since": "Tue, 31 Dec 2024 00:00:00 GMT" })
+    ).toBe(412);
+    expect(conditional({ "if-unmodified-since": LAST_MODIFIED })).toBe(
+      undefined
+    );
+  });
+
+  test("If-Match requires a strong match", () => {
+    expect(conditional({ "if-match": '"v1"' })).toBeUndefined();
+    expect(conditional({ "if-match": 'W/"v1"' })).toBe(412);
+    expect(conditional({ "if-match": '"v0"' })).toBe(412);
+  });
+
+  test("If-Match overrides If-Unmodified-Since", () => {
+    expect(
+      conditional({
+        "if-match": '"v1"',
+        "if-unmodified-since": "Tue, 31 Dec 2024 00:00:00 GMT",
+      })
+    ).toBeUndefined();
+  });
+});
+
+describe("serveStatic preconditions", () => {
+  test("answers If-Modified-Since with 304", () => {
+    const clientDir = testDir();
+    const res = serveStatic(
+      request({ "if-modified-since": LAST_MODIFIED }),
+      makeEntry(clientDir),
+      clientDir
+    );
+    expect(res.status).toBe(304);
+    expect(res.headers.get("last-modified")).toBe(LAST_MODIFIED);
+  });
+
+  test("answers a failed If-Unmodified-Since with 412", () => {
+    const clientDir = testDir();
+    const res = serveStatic(
+      request({ "if-unmodified-since": "Tue, 31 Dec 2024 00:00:00 GMT" }),
+      makeEntry(clientDir),
+      clientDir
+    );
+    expect(res.status).toBe(412);
+  });
+
+  test("If-Range accepts a matching Last-Modified date", () => {
+    const clientDir = testDir();
+    const entry = makeEntry(clientDir);
+
+    const fresh = serveStatic(
+      request({ range: "bytes=0-1", "if-range": LAST_MODIFIED }),
+      entry,
+      clientDir
+    );
+    expect(fresh.status).toBe(206);
+
+    const stale = serveStatic(
+      request({
+        range: "bytes=0-1",
+        "if-range": "Tue, 31 Dec 2024 00:00:00 GMT",
+      }),
+      entry,
+      clientDir
+    );
+    expect(stale.status).toBe(200);
+  });
+});
+
+describe("canonicalPagePath", () => {
+  const page: ManifestEntry = { headers: {}, filePath: "about/index.html" };
+  const file: ManifestEntry = { headers: {}, filePath: "feed.xml" };
+
+  test("redirects to the slash form under always", () => {
+    const manifest = new Map([["/about/", page]]);
+    expect(canonicalPagePath("/about", "always", manifest)).toBe("/about/");
+    expect(canonicalPagePath("/about/", "always", manifest)).toBeUndefined();
+  });
+
+  test("redirects to the slashless form under never", () => {
+    const manifest = new Map([["/about", page]]);
+    expect(canonicalPagePath("/about/", "never", manifest)).toBe("/about");
+    expect(canonicalPagePath("/about", "never", manifest)).toBeUndefined();
+  });
+
+  test("never redirects under ignore", () => {
+    const manifest = new Map([["/about", page]]);
+    expect(canonicalPagePath("/about/", "ignore", manifest)).toBeUndefined();
+  });
+
+  test("does not redirect literal files or unknown paths", () => {
+    const manifest = new Map([["/feed.xml", file]]);
+    expect(canonicalPagePath("/feed.xml/", "never", manifest)).toBeUndefined();
+    expect(canonicalPagePath("/missing", "always", manifest)).toBeUndefined();
+  });
+});
+
+describe("serveStatic memory cache", () => {
+  test("serves repeat unconditional hits from memory", async () => {
+    const clientDir = testDir();
+    const entry = makeEntry(clientDir);
+    const cache = new StaticMemoryCache({
+      clientDir,
+      maxByteSize: 1024,
+      maxFileSize: 1024,
+    });
+
+    // First hit streams from disk and admits the file.
+    const first = serveStatic(request(), entry, clientDir, cache);
+    expect(await first.text()).toBe("identity body");
+    await Bun.sleep(20);
+    expect(cache.get("app.js")).toBeDefined();
+
+    // Remove the file to prove later hits never touch the filesystem.
+    rmSync(join(clientDir, "app.js"));
+    for (let i = 0; i < 2; i++) {
+      const res = serveStatic(request(), entry, clientDir, cache);
+      expect(res.status).toBe(200);
+      expect(res.headers.get("etag")).toBe('"identity"');
+      expect(res.headers.get("x-astro-cache")).toBe("STATIC");
+      expect(await res.text()).toBe("identity body");
+    }
+  });
+
+  test("caches each negotiated variant separately", async () => {
+    const clientDir = testDir();
+    const entry = makeEntry(clientDir);
+    const cache = new StaticMemoryCache({
+      clientDir,
+      maxByteSize: 1024,
+      maxFileSize: 1024,
+    });
+
+    await serveStatic(
+      request({ "accept-encoding": "br" }),
+      entry,
+      clientDir,
+      cache
+    ).text();
+    await Bun.sleep(20);
+
+    const res = serveStatic(
+      request({ "accept-encoding": "br" }),
+      entry,
+      clientDir,
+      cache
+    );
+    expect(res.headers.get("content-encoding")).toBe("br");
+    expect(cache.get("app.js")).toBeUndefined();
+    expect(cache.get("app.js.br")).toBeDefined();
+  });
+
+  test("conditional requests bypass the memory fast path", async () => {
+    const clientDir = testDir();
+    const entry = makeEntry(clientDir);
+    const cache = new StaticMemoryCache({
+      clientDir,
+      maxByteSize: 1024,
+      maxFileSize: 1024,
+    });
+    await cache.preload([["app.js", new Headers(entry.headers)]]);
+
+    const res = serveStatic(
+      request({ "if-none-match": '"identity"' }),
+      entry,
+      clientDir,
+      cache
+    );
+    expect(res.status).toBe(304);
+
+    const partial = serveStatic(
+      request({ range: "bytes=0-1" }),
+      entry,
+      clientDir,
+      cache
+    );
+    expect(partial.status).toBe(206);
+  });
+});
+
+describe("createNativeStaticRoutes", () => {
+  function page(filePath: string, size: number): ManifestEntry {
+    return {
+      headers: { etag: '"page"', "content-length": String(size) },
+      filePath,
+    };
+  }
+
+  test("registers plain entries and shares responses across aliases", async () => {
+    const clientDir = testDir();
+    writeFileSync(join(clientDir, "index.html"), "home");
+    writeFileSync(join(clientDir, "favicon.svg"), "<svg/>");
+
+    const home = page("index.html", 4);
+    const favicon = page("favicon.svg", 6);
+    favicon.headers["accept-ranges"] = "bytes";
+    const routes = await createNativeStaticRoutes(
+      new Map([
+        ["/", home],
+        ["/index.html", home],
+        ["/favicon.svg", favicon],
+      ]),
+      { base: "/", clientDir, maxFileSize: 1024 }
+    );
+
+    expect(Object.keys(routes).sort()).toEqual([
+      "/",
+      "/favicon.svg",
+      "/index.html",
+    ]);
+    expect(routes["/"]).toBe(routes["/index.html"]);
+    const res = routes["/favicon.svg"].GET.clone();
+    expect(res.headers.get("x-astro-cache")).toBe("STATIC");
+    expect(res.headers.get("etag")).toBe('"page"');
+    expect(await res.text()).toBe("<svg/>");
+    // Bun ignores `Range` on native routes.
+    expect(res.headers.has("accept-ranges")).toBe(false);
+
+    rmSync(clientDir, { recursive: true, force: true });
+  });
+
+  test("prefixes routes with the base and registers the bare base", async () => {
+    const clientDir = testDir();
+    writeFileSync(join(clientDir, "index.html"), "home");
+
+    const routes = await createNativeStaticRoutes(
+      new Map([["/", page("index.html", 4)]]),
+      { base: "/docs/", clientDir, maxFileSize: 1024 }
+    );
+
+    expect(Object.keys(routes).sort()).toEqual(["/docs", "/docs/"]);
+
+    rmSync(clientDir, { recursive: true, force: true });
+  });
+
+  test("skips precompressed, oversized, excluded, and pattern-like paths", async () => {
+    const clientDir = testDir();
+    writeFileSync(join(clientDir, "big.bin"), "0123456789");
+
+    const routes = await createNativeStaticRoutes(
+      new Map([
+        ["/app.js", makeEntry(clientDir)],
+        ["/big.bin", page("big.bin", 10)],
+        ["/old", page("old.html", 1)],
+        ["/a:b.txt", page("a:b.txt", 1)],
+        ["/caf\u00e9.txt", page("caf\u00e9.txt", 1)],
+      ]),
+      {
+        base: "/",
+        clientDir,
+        maxFileSize: 5,
+        exclude: (path) => path === "/old",
+      }
+    );
+
+    expect(Object.keys(routes)).toEqual([]);
+
+    rmSync(clientDir, { recursive: true, force: true });
+  });
+});
+
+describe("hasSourceMapAccess", () => {
+  test("requires the header to match the token", () => {
+    const header = "x-sourcemap-token";
+    expect(
+      hasSourceMapAccess(request({ [header]: "secret" }), header, "secret")
+    ).toBe(true);
+    expect(
+      hasSourceMapAccess(request({ [header]: "wrong!" }), header, "secret")
+    ).toBe(false);
+    expect(
+      hasSourceMapAccess(request({ [header]: "secret-ish" }), header, "secret")
+    ).toBe(false);
+    expect(hasSourceMapAccess(request(), header, "secret")).toBe(false);
+  });
+
+  test("denies everyone without a configured token", () => {
+    const header = "x-sourcemap-token";
+    expect(hasSourceMapAccess(request({ [header]: "" }), header, "")).toBe(
+      false
+    );
+    expect(
+      hasSourceMapAccess(request({ [header]: "any" }), header, undefined)
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,503 @@
+import { randomUUID } from "node:crypto";
+import { join } from "node:path";
+import type { BunFile } from "bun";
+import { tokensMatch } from "./auth.ts";
+import { CACHE_HEADER } from "./constants.ts";
+import type { StaticMemoryCache } from "./static-cache.ts";
+import type {
+  ContentEncoding,
+  EncodedVariant,
+  ManifestEntry,
+  TrailingSlash,
+} from "./types.ts";
+
+/** Server-side preference order used to break ties between equally weighted codings. */
+const ENCODING_PREFERENCE: readonly ContentEncoding[] = ["br", "zstd", "gzip"];
+
+/** Parse an `Accept-Encoding` header into lowercase coding → q-value pairs. */
+function parseAcceptEncoding(header: string): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const part of header.split(",")) {
+    const [token, ...params] = part.split(";");
+    const coding = token.trim().toLowerCase();
+    if (!coding) continue;
+
+    let q = 1;
+    for (const param of params) {
+      const [key, value] = param.split("=");
+      if (key.trim().toLowerCase() === "q") {
+        q = Number(value?.trim());
+        if (Number.isNaN(q)) q = 0;
+      }
+    }
+    weights.set(coding, q);
+  }
+  return weights;
+}
+
+/**
+ * Pick the best precompressed variant for an `Accept-Encoding` header.
+ * Returns `undefined` when the identity (uncompressed) file should be served.
+ */
+export function negotiateEncoding(
+  acceptEncoding: string | null,
+  available: readonly ContentEncoding[]
+): ContentEncoding | undefined {
+  if (!acceptEncoding || available.length === 0) return undefined;
+
+  const weights = parseAcceptEncoding(acceptEncoding);
+  const wildcard = weights.get("*");
+
+  let best: ContentEncoding | undefined;
+  let bestQ = 0;
+  for (const encoding of ENCODING_PREFERENCE) {
+    if (!available.includes(encoding)) continue;
+    const q =
+      weights.get(encoding) ??
+      (encoding === "gzip" ? weights.get("x-gzip") : undefined) ??
+      wildcard ??
+      0;
+    if (q > bestQ) {
+      best = encoding;
+      bestQ = q;
+    }
+  }
+
+  // An explicitly preferred identity coding wins over compressed variants.
+  const identityQ = weights.get("identity");
+  if (best && identityQ !== undefined && identityQ > bestQ) return undefined;
+
+  return best;
+}
+
+/** An inclusive byte range within a file. */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/** Upper bound on ranges per request; larger sets are ignored as abusive. */
+const MAX_RANGES = 100;
+
+/**
+ * Parse a `Range` header against a representation of `size` bytes.
+ * Returns `undefined` when the header is malformed or uses an unknown unit
+ * (the full representation should be sent), `"unsatisfiable"` when no range
+ * overlaps the representation (416), and the clamped ranges otherwise.
+ */
+export function parseRange(
+  header: string,
+  size: number
+): ByteRange[] | "unsatisfiable" | undefined {
+  const match = /^\s*bytes\s*=(.*)$/i.exec(header);
+  if (!match) return undefined;
+
+  const specs = match[1].split(",");
+  if (specs.length > MAX_RANGES) return undefined;
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const trimmed = spec.trim();
+    if (!trimmed) continue;
+
+    const parts = /^(\d*)-(\d*)$/.exec(trimmed);
+    if (!parts || (!parts[1] && !parts[2])) return undefined;
+
+    let start: number;
+    let end: number;
+    if (!parts[1]) {
+      // Suffix range: the last N bytes.
+      const suffix = Number(parts[2]);
+      if (suffix === 0) continue;
+      start = Math.max(size - suffix, 0);
+      end = size - 1;
+    } else {
+      start = Number(parts[1]);
+      if (parts[2] && Number(parts[2]) < start) return undefined;
+      end = parts[2] ? Math.min(Number(parts[2]), size - 1) : size - 1;
+    }
+
+    if (start < size) ranges.push({ start, end });
+  }
+
+  return ranges.length > 0 ? ranges : "unsatisfiable";
+}
+
+/** Matches each entity-tag (or `*`) in an `If-Match` / `If-None-Match` list. */
+const ETAG_LIST = /\*|(?:W\/)?"[^"]*"/g;
+
+/**
+ * Whether an `If-Match` / `If-None-Match` list matches `etag`. Weak
+ * comparison ignores the `W/` prefix; strong comparison requires both tags
+ * to be strong and identical (RFC 9110 §8.8.3.2).
+ */
+export function etagListMatches(
+  list: string,
+  etag: string | null,
+  weak: boolean
+): boolean {
+  if (!etag) return false;
+  for (const [candidate] of list.matchAll(ETAG_LIST)) {
+    if (candidate === "*") return true;
+    if (weak) {
+      if (candidate.replace(/^W\//, "") === etag.replace(/^W\//, "")) {
+        return true;
+      }
+    } else if (!candidate.startsWith("W/") && candidate === etag) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** Parse an HTTP-date to whole seconds since the epoch, or `undefined`. */
+function parseHttpDate(value: string | null): number | undefined {
+  if (value === null) return undefined;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? undefined : Math.floor(ms / 1000);
+}
+
+/**
+ * Evaluate conditional request headers in RFC 9110 §13.2.2 order. Returns
+ * the status to short-circuit with (`304` or `412`), or `undefined` when the
+ * request should be served normally.
+ */
+export function evaluatePreconditions(
+  request: Request,
+  headers: Headers
+): 304 | 412 | undefined {
+  const etag = headers.get("etag");
+  const lastModified = parseHttpDate(headers.get("last-modified"));
+
+  const ifMatch = request.headers.get("if-match");
+  if (ifMatch !== null) {
+    if (!etagListMatches(ifMatch, etag, false)) return 412;
+  } else {
+    const ifUnmodifiedSince = parseHttpDate(
+      request.headers.get("if-unmodified-since")
+    );
+    if (
+      ifUnmodifiedSince !== undefined &&
+      lastModified !== undefined &&
+      lastModified > ifUnmodifiedSince
+    ) {
+      return 412;
+    }
+  }
+
+  const isSafe = request.method === "GET" || request.method === "HEAD";
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch !== null) {
+    if (etagListMatches(ifNoneMatch, etag, true)) return isSafe ? 304 : 412;
+  } else if (isSafe) {
+    const ifModifiedSince = parseHttpDate(
+      request.headers.get("if-modified-since")
+    );
+    if (
+      ifModifiedSince !== undefined &&
+      lastModified !== undefined &&
+      lastModified <= ifModifiedSince
+    ) {
+      return 304;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether a `Range` request should be honored given its `If-Range`
+ * precondition: a strong ETag match, or an exact `Last-Modified` match.
+ */
+function isRangeFresh(ifRange: string | null, headers: Headers): boolean {
+  if (ifRange === null) return true;
+  const value = ifRange.trim();
+
+  if (value.startsWith('"') || value.startsWith("W/")) {
+    const etag = headers.get("etag");
+    return !!etag && !etag.startsWith("W/") && value === etag;
+  }
+
+  const date = parseHttpDate(value);
+  const lastModified = parseHttpDate(headers.get("last-modified"));
+  return date !== undefined && date === lastModified;
+}
+
+/** Build a 206 response for one or more byte ranges of `file`. */
+function rangeResponse(
+  file: BunFile,
+  ranges: ByteRange[],
+  size: number,
+  headers: Headers
+): Response {
+  if (ranges.length === 1) {
+    const [{ start, end }] = ranges;
+    headers.set("Content-Range", `bytes ${start}-${end}/${size}`);
+    headers.set("Content-Length", String(end - start + 1));
+    return new Response(file.slice(start, end + 1), {
+      status: 206,
+      headers,
+    });
+  }
+
+  // Multiple ranges are sent as a multipart/byteranges body where each part
+  // carries its own Content-Type and Content-Range.
+  const boundary = randomUUID().replaceAll("-", "");
+  const contentType = headers.get("content-type");
+  const encoder = new TextEncoder();
+  const parts: (Uint8Array | BunFile)[] = [];
+  let length = 0;
+
+  for (const { start, end } of ranges) {
+    const partHeader = encoder.encode(
+      `--${boundary}\r\n${
+        contentType ? `Content-Type: ${contentType}\r\n` : ""
+      }Content-Range: bytes ${start}-${end}/${size}\r\n\r\n`
+    );
+    parts.push(partHeader, file.slice(start, end + 1), encoder.encode("\r\n"));
+    length += partHeader.byteLength + (end - start + 1) + 2;
+  }
+  const closing = encoder.encode(`--${boundary}--\r\n`);
+  parts.push(closing);
+  length += closing.byteLength;
+
+  // Stream the parts in order. Bun drops lazily-read file slices when they
+  // are combined into a `Blob`, so each slice is read as it is reached.
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const part = parts.shift();
+      if (!part) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(
+        part instanceof Uint8Array ? part : await part.bytes()
+      );
+    },
+  });
+
+  headers.set("Content-Type", `multipart/byteranges; boundary=${boundary}`);
+  headers.set("Content-Length", String(length));
+  return new Response(body, { status: 206, headers });
+}
+
+/** Request headers that rule out answering straight from memory. */
+const CONDITIONAL_HEADERS = [
+  "if-match",
+  "if-none-match",
+  "if-modified-since",
+  "if-unmodified-since",
+  "range",
+];
+
+/**
+ * Full `200` response headers for a manifest entry, optionally for one of
+ * its precompressed variants.
+ */
+export function responseHeaders(
+  meta: ManifestEntry,
+  variant?: EncodedVariant
+): Headers {
+  const headers = new Headers(meta.headers);
+  if (variant) {
+    for (const [key, value] of Object.entries(variant.headers)) {
+      headers.set(key, value);
+    }
+  }
+  headers.set(CACHE_HEADER, "STATIC");
+  return headers;
+}
+
+/**
+ * Build the response for a static manifest entry, selecting a precompressed
+ * variant when the client accepts one and answering conditional and range
+ * requests. When a memory cache is given, unconditional requests for cached
+ * files skip the filesystem entirely.
+ */
+export function serveStatic(
+  request: Request,
+  meta: ManifestEntry,
+  clientDir: string,
+  memoryCache?: StaticMemoryCache
+): Response {
+  // Range handling is only defined for GET.
+  const range = request.method === "GET" ? request.headers.get("range") : null;
+
+  // Byte ranges always address the identity representation: ranges of an
+  // encoded body would make multipart responses ambiguous to decode.
+  let variant: EncodedVariant | undefined;
+  if (meta.encodings && range === null) {
+    const encoding = negotiateEncoding(
+      request.headers.get("accept-encoding"),
+      Object.keys(meta.encodings) as ContentEncoding[]
+    );
+    variant = encoding ? meta.encodings[encoding] : undefined;
+  }
+  const filePath = variant?.filePath ?? meta.filePath;
+
+  const isUnconditional =
+    memoryCache !== undefined &&
+    !CONDITIONAL_HEADERS.some((name) => request.headers.has(name));
+  if (isUnconditional) {
+    const cached = memoryCache.get(filePath);
+    if (cached) {
+      return new Response(cached.body, {
+        status: 200,
+        headers: cached.headers,
+      });
+    }
+  }
+
+  const headers = responseHeaders(meta, variant);
+
+  const precondition = evaluatePreconditions(request, headers);
+  if (precondition) {
+    headers.delete("Content-Length");
+    headers.delete("Content-Type");
+    headers.delete("Content-Encoding");
+    return new Response(null, { status: precondition, headers });
+  }
+
+  const file = Bun.file(join(clientDir, filePath));
+
+  if (
+    range !== null &&
+    isRangeFresh(request.headers.get("if-range"), headers)
+  ) {
+    const size = Number(headers.get("content-length"));
+    const ranges = parseRange(range, size);
+    if (ranges === "unsatisfiable") {
+      headers.set("Content-Range", `bytes */${size}`);
+      headers.delete("Content-Length");
+      return new Response(null, { status: 416, headers });
+    }
+    if (ranges) return rangeResponse(file, ranges, size, headers);
+  }
+
+  // Cache misses load in the background; this response streams from disk.
+  memoryCache?.admit(filePath, headers);
+
+  return new Response(file, { status: 200, headers });
+}
+
+/**
+ * Resolve the canonical form of a prerendered page URL under Astro's
+ * `trailingSlash` setting. Returns the manifest key to redirect to when
+ * `pathname` only differs from a page route by its trailing slash, or
+ * `undefined` when no redirect applies.
+ */
+export function canonicalPagePath(
+  pathname: string,
+  trailingSlash: TrailingSlash,
+  manifest: ReadonlyMap<string, ManifestEntry>
+): string | undefined {
+  if (trailingSlash === "ignore" || pathname === "/") return undefined;
+
+  const hasSlash = pathname.endsWith("/");
+  if (hasSlash === (trailingSlash === "always")) return undefined;
+
+  const canonical = hasSlash ? pathname.slice(0, -1) : `${pathname}/`;
+  const meta = manifest.get(canonical);
+
+  // Only page aliases are redirected — literal files (e.g. `/feed.xml`) are
+  // keyed by their own file path and never gain a trailing slash.
+  if (!meta || `/${meta.filePath}` === canonical) return undefined;
+  return canonical;
+}
+
+/**
+ * Serve a prerendered error page (e.g. `404.html`) with the given status.
+ * Validators are dropped and caching is disabled so the page is never
+ * mistaken for the representation of the requested URL.
+ */
+export function serveErrorPage(
+  request: Request,
+  meta: ManifestEntry,
+  status: number,
+  clientDir: string
+): Response {
+  const headers = new Headers(meta.headers);
+  headers.set(CACHE_HEADER, "STATIC");
+  headers.set("Cache-Control", "no-store");
+  headers.delete("ETag");
+  headers.delete("Last-Modified");
+  headers.delete("Accept-Ranges");
+
+  const body =
+    request.method === "HEAD" ? null : Bun.file(join(clientDir, meta.filePath));
+  return new Response(body, { status, headers });
+}
+
+/**
+ * Whether a request may fetch a gated source map: its `header` must equal
+ * `token` (compared in constant time). Always `false` without a token, so a
+ * missing secret fails closed.
+ */
+export function hasSourceMapAccess(
+  request: Request,
+  header: string,
+  token: string | undefined
+): boolean {
+  return tokensMatch(request.headers.get(header), token);
+}
+
+/** A method-scoped native route; other methods fall through to `fetch`. */
+export interface NativeStaticRoute {
+  GET: Response;
+  HEAD: Response;
+}
+
+/** Options for {@link createNativeStaticRoutes}. */
+interface NativeStaticRoutesOptions {
+  base: string;
+  clientDir: string;
+  /** Largest file (in bytes) to buffer into a native route. */
+  maxFileSize: number;
+  /** Manifest keys that must stay on the JS path (e.g. redirect sources). */
+  exclude?: (pathname: string) => boolean;
+}
+
+/**
+ * Buffer eligible manifest entries into `Response` objects for
+ * `Bun.serve`'s `routes` option, so they are answered without entering the
+ * `fetch` handler. Bun answers `If-None-Match` and `If-Modified-Since` with
+ * a 304 and `If-Match` with a 412 natively, but ignores `Range`, so
+ * `Accept-Ranges` is not advertised.
+ *
+ * Entries are skipped (and keep being served by {@link serveStatic}) when
+ * they have precompressed variants (encoding negotiation needs JS), exceed
+ * `maxFileSize`, or have a path Bun's router would interpret as a pattern.
+ */
+export async function createNativeStaticRoutes(
+  manifest: ReadonlyMap<string, ManifestEntry>,
+  options: NativeStaticRoutesOptions
+): Promise<Record<string, NativeStaticRoute>> {
+  const { base, clientDir, maxFileSize, exclude } = options;
+  const prefix = base.endsWith("/") ? base.slice(0, -1) : base;
+  const routes: Record<string, NativeStaticRoute> = {};
+  // Aliases share a file, so share its buffered response too.
+  const responses = new Map<string, NativeStaticRoute>();
+
+  for (const [pathname, meta] of manifest) {
+    if (meta.encodings || exclude?.(pathname)) continue;
+    if (Number(meta.headers["content-length"]) > maxFileSize) continue;
+    // `:` and `*` are route syntax, and the router matches encoded paths.
+    if (/[:*]/.test(pathname) || encodeURI(pathname) !== pathname) continue;
+
+    let route = responses.get(meta.filePath);
+    if (!route) {
+      const body = await Bun.file(join(clientDir, meta.filePath)).bytes();
+      const headers = responseHeaders(meta);
+      headers.delete("accept-ranges");
+      const response = new Response(body, { headers });
+      route = { GET: response, HEAD: response };
+      responses.set(meta.filePath, route);
+    }
+
+    routes[`${prefix}${pathname}`] = route;
+    // The bare base (e.g. `/docs`) is the root page too.
+    if (pathname === "/" && prefix) routes[prefix] = route;
+  }
+
+  return routes;
+}
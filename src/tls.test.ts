@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import type { BunFile } from "bun";
+import { createHttpsRedirect, resolveTLSOptions } from "./tls.ts";
+
+/** Path of a `Bun.file` reference. */
+function fileName(value: unknown): string | undefined {
+  return (value as BunFile | undefined)?.name;
+}
+
+describe("resolveTLSOptions", () => {
+  test("returns undefined without certificates", () => {
+    expect(resolveTLSOptions(false, {})).toBeUndefined();
+    expect(resolveTLSOptions([], {})).toBeUndefined();
+  });
+
+  test("maps configured certificates to file references", () => {
+    const [options] =
+      resolveTLSOptions(
+        [
+          {
+            cert: "./cert.pem",
+            key: "./key.pem",
+            ca: "./ca.pem",
+            passphrase: "config",
+            serverName: "example.com",
+          },
+        ],
+        {}
+      ) ?? [];
+
+    expect(fileName(options.cert)).toBe("./cert.pem");
+    expect(fileName(options.key)).toBe("./key.pem");
+    expect(fileName(options.ca)).toBe("./ca.pem");
+    expect(options.passphrase).toBe("config");
+    expect(options.serverName).toBe("example.com");
+  });
+
+  test("keeps one entry per SNI hostname", () => {
+    const options = resolveTLSOptions(
+      [
+        { cert: "./a.pem", key: "./a-key.pem", serverName: "a.example.com" },
+        { cert: "./b.pem", key: "./b-key.pem", serverName: "b.example.com" },
+      ],
+      {}
+    );
+    expect(options?.map((o) => o.serverName)).toEqual([
+      "a.example.com",
+      "b.example.com",
+    ]);
+  });
+
+  test("environment variables replace the configured certificates", () => {
+    const options = resolveTLSOptions(
+      [{ cert: "./a.pem", key: "./a-key.pem", serverName: "a.example.com" }],
+      {
+        TLS_CERT: "/etc/tls/cert.pem",
+        TLS_KEY: "/etc/tls/key.pem",
+        TLS_PASSPHRASE: "secret",
+      }
+    );
+
+    expect(options).toHaveLength(1);
+    expect(fileName(options?.[0].cert)).toBe("/etc/tls/cert.pem");
+    expect(fileName(options?.[0].key)).toBe("/etc/tls/key.pem");
+    expect(options?.[0].ca).toBeUndefined();
+    expect(options?.[0].passphrase).toBe("secret");
+    expect(options?.[0].serverName).toBeUndefined();
+  });
+
+  test("TLS_PASSPHRASE overrides configured passphrases", () => {
+    const options = resolveTLSOptions(
+      [{ cert: "./cert.pem", key: "./key.pem", passphrase: "config" }],
+      { TLS_PASSPHRASE: "env" }
+    );
+    expect(options?.[0].passphrase).toBe("env");
+  });
+
+  test("ignores a certificate without a key in the environment", () => {
+    expect(resolveTLSOptions(false, { TLS_CERT: "./cert.pem" })).toBe(
+      undefined
+    );
+  });
+});
+
+describe("createHttpsRedirect", () => {
+  test("redirects GET to the same host and path on the HTTPS port", () => {
+    const redirect = createHttpsRedirect(8443);
+    const res = redirect(new Request("http://example.com:8080/a/b?x=1"));
+    expect(res.status).toBe(301);
+    expect(res.headers.get("location")).toBe(
+      "https://example.com:8443/a/b?x=1"
+    );
+  });
+
+  test("omits the default HTTPS port", () => {
+    const res = createHttpsRedirect(443)(new Request("http://example.com/"));
+    expect(res.headers.get("location")).toBe("https://example.com/");
+  });
+
+  test("preserves the method with 308 for non-GET requests", () => {
+    const res = createHttpsRedirect(443)(
+      new Request("http://example.com/form", { method: "POST" })
+    );
+    expect(res.status).toBe(308);
+  });
+});
@@ -0,0 +1,49 @@
+import type { TLSOptions } from "bun";
+import type { TLSCertificateOptions } from "./types.ts";
+
+/**
+ * Resolve the certificates to serve HTTPS with. `TLS_CERT` and `TLS_KEY`
+ * (plus optional `TLS_CA` and `TLS_PASSPHRASE`) replace the configured
+ * certificates, and `TLS_PASSPHRASE` overrides every configured passphrase
+ * so the secret can stay out of the build output. Returns `undefined` when
+ * neither source provides a certificate.
+ */
+export function resolveTLSOptions(
+  config: false | TLSCertificateOptions[],
+  env: Record<string, string | undefined>
+): TLSOptions[] | undefined {
+  const certificates: TLSCertificateOptions[] =
+    env.TLS_CERT && env.TLS_KEY
+      ? [{ cert: env.TLS_CERT, key: env.TLS_KEY, ca: env.TLS_CA }]
+      : config || [];
+  if (certificates.length === 0) return undefined;
+
+  return certificates.map(({ cert, key, ca, passphrase, serverName }) => ({
+    cert: Bun.file(cert),
+    key: Bun.file(key),
+    ca: ca ? Bun.file(ca) : undefined,
+    passphrase: env.TLS_PASSPHRASE ?? passphrase,
+    serverName,
+  }));
+}
+
+/**
+ * Build the `fetch` handler of the plain-HTTP listener, redirecting every
+ * request to the same host and path on the HTTPS port. GET/HEAD get a 301;
+ * other methods get a 308 so the method and body are preserved.
+ */
+export function createHttpsRedirect(
+  httpsPort: number
+): (request: Request) => Response {
+  const portSuffix = httpsPort === 443 ? "" : `:${httpsPort}`;
+  return (request) => {
+    const url = new URL(request.url);
+    const isGetOrHead = request.method === "GET" || request.method === "HEAD";
+    return new Response(null, {
+      status: isGetOrHead ? 301 : 308,
+      headers: {
+        Location: `https://${url.hostname}${portSuffix}${url.pathname}${url.search}`,
+      },
+    });
+  };
+}
@@ -0,0 +1,127 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createTracer,
+  type FinishedSpan,
+  formatTraceparent,
+  parseTraceparent,
+  withSpan,
+} from "./tracing.ts";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+
+function recordingTracer(sampleRate = 1) {
+  const spans: FinishedSpan[] = [];
+  const tracer = createTracer({
+    exporter: { add: (span) => spans.push(span), flush: async () => {} },
+    sampleRate,
+  });
+  return { tracer, spans };
+}
+
+describe("parseTraceparent", () => {
+  test("parses a sampled traceparent", () => {
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`)).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      sampled: true,
+    });
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`)?.sampled).toBe(
+      false
+    );
+  });
+
+  test("accepts extra fields from future versions only", () => {
+    expect(
+      parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-01-extra`)
+    ).toBeDefined();
+    expect(
+      parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01-extra`)
+    ).toBeUndefined();
+  });
+
+  test("rejects malformed and invalid values", () => {
+    expect(parseTraceparent(null)).toBeUndefined();
+    expect(parseTraceparent("garbage")).toBeUndefined();
+    expect(
+      parseTraceparent(`00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-01`)
+    ).toBeUndefined();
+    expect(parseTraceparent(`ff-${TRACE_ID}-${SPAN_ID}-01`)).toBeUndefined();
+    expect(
+      parseTraceparent(`00-${"0".repeat(32)}-${SPAN_ID}-01`)
+    ).toBeUndefined();
+    expect(
+      parseTraceparent(`00-${TRACE_ID}-${"0".repeat(16)}-01`)
+    ).toBeUndefined();
+  });
+
+  test("round-trips through formatTraceparent", () => {
+    const header = `00-${TRACE_ID}-${SPAN_ID}-01`;
+    const context = parseTraceparent(header);
+    expect(context && formatTraceparent(context)).toBe(header);
+  });
+});
+
+describe("createTracer", () => {
+  test("nests spans through async calls", async () => {
+    const { tracer, spans } = recordingTracer();
+    await tracer.startActiveSpan("parent", { kind: "server" }, async () => {
+      await Bun.sleep(1);
+      await withSpan(tracer, "child", { key: "value" }, async () => {});
+    });
+
+    const [child, parent] = spans;
+    expect(parent.name).toBe("parent");
+    expect(parent.kind).toBe("server");
+    expect(parent.parentSpanId).toBeUndefined();
+    expect(child.name).toBe("child");
+    expect(child.kind).toBe("internal");
+    expect(child.attributes).toEqual({ key: "value" });
+    expect(child.context.traceId).toBe(parent.context.traceId);
+    expect(child.parentSpanId).toBe(parent.context.spanId);
+    expect(parent.endTime).toBeGreaterThanOrEqual(parent.startTime);
+  });
+
+  test("continues a remote parent", async () => {
+    const { tracer, spans } = recordingTracer();
+    const parent = { traceId: TRACE_ID, spanId: SPAN_ID, sampled: true };
+    await tracer.startActiveSpan("request", { parent }, async (span) => {
+      expect(tracer.activeContext()).toBe(span.context);
+    });
+
+    expect(spans[0].context.traceId).toBe(TRACE_ID);
+    expect(spans[0].parentSpanId).toBe(SPAN_ID);
+    expect(tracer.activeContext()).toBeUndefined();
+  });
+
+  test("follows the parent's sampling decision", async () => {
+    const { tracer, spans } = recordingTracer(1);
+    const parent = { traceId: TRACE_ID, spanId: SPAN_ID, sampled: false };
+    await tracer.startActiveSpan("request", { parent }, async (span) => {
+      expect(span.context.sampled).toBe(false);
+      await withSpan(tracer, "child", {}, async () => {});
+    });
+    expect(spans).toHaveLength(0);
+  });
+
+  test("samples root traces at sampleRate", async () => {
+    const { tracer, spans } = recordingTracer(0);
+    await tracer.startActiveSpan("request", {}, async () => {});
+    expect(spans).toHaveLength(0);
+  });
+
+  test("marks the span as failed and rethrows", async () => {
+    const { tracer, spans } = recordingTracer();
+    const failing = tracer.startActiveSpan("render", {}, async () => {
+      throw new Error("boom");
+    });
+    await expect(failing).rejects.toThrow("boom");
+    expect(spans[0].error).toBe("boom");
+  });
+});
+
+describe("withSpan", () => {
+  test("calls through without a tracer", async () => {
+    expect(await withSpan(undefined, "noop", {}, async () => 42)).toBe(42);
+  });
+});
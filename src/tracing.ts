@@ -0,0 +1,182 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+
+/** Identifies a span within a trace, as carried by `traceparent`. */
+export interface SpanContext {
+  /** 32 lowercase hex characters. */
+  traceId: string;
+  /** 16 lowercase hex characters. */
+  spanId: string;
+  /** Whether the trace is sampled (exported). */
+  sampled: boolean;
+}
+
+/** Span attribute values (OpenTelemetry primitive attribute types). */
+export type AttributeValue = string | number | boolean;
+
+/** A span that has ended, ready to be exported. */
+export interface FinishedSpan {
+  name: string;
+  kind: "server" | "internal";
+  context: SpanContext;
+  /** Parent span ID, or `undefined` for a root span. */
+  parentSpanId: string | undefined;
+  /** Start time in milliseconds since the Unix epoch. */
+  startTime: number;
+  /** End time in milliseconds since the Unix epoch. */
+  endTime: number;
+  attributes: Record<string, AttributeValue>;
+  /** Error message when the span failed. */
+  error: string | undefined;
+}
+
+/** A span in progress. */
+export interface Span {
+  readonly context: SpanContext;
+  setAttribute(key: string, value: AttributeValue): void;
+  /** Mark the span as failed. */
+  setError(error: unknown): void;
+}
+
+/** Receives sampled spans as they end. */
+export interface SpanExporter {
+  add(span: FinishedSpan): void;
+  /** Export every queued span. */
+  flush(): Promise<void>;
+}
+
+/** Options for {@link Tracer.startActiveSpan}. */
+export interface SpanOptions {
+  kind?: "server" | "internal";
+  attributes?: Record<string, AttributeValue>;
+  /**
+   * Remote parent (e.g. from an incoming `traceparent`). Defaults to the
+   * active span.
+   */
+  parent?: SpanContext;
+}
+
+/** Creates spans and tracks the active one across async calls. */
+export interface Tracer {
+  /**
+   * Run `fn` inside a new span that is active for its duration, ending the
+   * span when the returned promise settles. A rejection marks the span as
+   * failed and is rethrown.
+   */
+  startActiveSpan<T>(
+    name: string,
+    options: SpanOptions,
+    fn: (span: Span) => Promise<T>
+  ): Promise<T>;
+  /** Context of the active span, if any. */
+  activeContext(): SpanContext | undefined;
+  /** Export every queued span. */
+  flush(): Promise<void>;
+}
+
+const TRACEPARENT =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})/;
+
+/**
+ * Parse a W3C `traceparent` header. Returns `undefined` for malformed values,
+ * the invalid version `ff`, and all-zero trace or parent IDs.
+ */
+export function parseTraceparent(
+  header: string | null
+): SpanContext | undefined {
+  if (header === null) return undefined;
+  const value = header.trim();
+  const match = value.match(TRACEPARENT);
+  if (!match) return undefined;
+  const [fields, version, traceId, spanId, flags] = match;
+  if (version === "ff") return undefined;
+  // Version 00 has exactly four fields; later versions may append more.
+  if (version === "00" && fields.length !== value.length) return undefined;
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return undefined;
+  return { traceId, spanId, sampled: (Number.parseInt(flags, 16) & 1) === 1 };
+}
+
+/** Format a span context as a W3C `traceparent` header value. */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? "01" : "00"}`;
+}
+
+/** Options for {@link createTracer}. */
+interface TracerOptions {
+  exporter: SpanExporter;
+  /** Fraction of new root traces to sample, from `0` to `1`. */
+  sampleRate: number;
+}
+
+/**
+ * Create a tracer. Child spans follow their parent's sampling decision, so
+ * an incoming `traceparent` decides for the whole request; new root traces
+ * are sampled at `sampleRate`. Unsampled spans still get IDs (for
+ * propagation) but are never exported.
+ */
+export function createTracer(options: TracerOptions): Tracer {
+  const { exporter, sampleRate } = options;
+  const storage = new AsyncLocalStorage<SpanContext>();
+
+  return {
+    async startActiveSpan(name, spanOptions, fn) {
+      const parent = spanOptions.parent ?? storage.getStore();
+      const context: SpanContext = {
+        traceId: parent?.traceId ?? randomBytes(16).toString("hex"),
+        spanId: randomBytes(8).toString("hex"),
+        sampled: parent ? parent.sampled : Math.random() < sampleRate,
+      };
+      const attributes = { ...spanOptions.attributes };
+      let error: string | undefined;
+      const span: Span = {
+        context,
+        setAttribute(key, value) {
+          attributes[key] = value;
+        },
+        setError(err) {
+          error = err instanceof Error ? err.message : String(err);
+        },
+      };
+
+      const startTime = performance.timeOrigin + performance.now();
+      try {
+        return await storage.run(context, () => fn(span));
+      } catch (err) {
+        span.setError(err);
+        throw err;
+      } finally {
+        if (context.sampled) {
+          exporter.add({
+            name,
+            kind: spanOptions.kind ?? "internal",
+            context,
+            parentSpanId: parent?.spanId,
+            startTime,
+            endTime: performance.timeOrigin + performance.now(),
+            attributes,
+            error,
+          });
+        }
+      }
+    },
+    activeContext() {
+      return storage.getStore();
+    },
+    flush() {
+      return exporter.flush();
+    },
+  };
+}
+
+/**
+ * Run `fn` in an internal child span when tracing is enabled, or call it
+ * directly otherwise.
+ */
+export function withSpan<T>(
+  tracer: Tracer | undefined,
+  name: string,
+  attributes: Record<string, AttributeValue>,
+  fn: () => Promise<T>
+): Promise<T> {
+  return tracer ? tracer.startActiveSpan(name, { attributes }, fn) : fn();
+}
@@ -1,3 +1,11 @@
+import type {
+  BufferSource,
+  HeadersInit,
+  Server,
+  ServerWebSocket,
+  SocketAddress,
+} from "bun";
+
 /**
  * Adapter-specific options passed to the server entrypoint via a Vite virtual
  * module at build time. Runtime values like `buildClientDir` and
@@ -17,11 +25,71 @@ export interface AdapterOptions {
   staticCacheControl: string;
   /** Image endpoint route with leading slash (e.g. "/_image"). */
   imageEndpointRoute: string;
+  /** Astro's `trailingSlash` setting, used to canonicalize prerendered page URLs. */
+  trailingSlash: TrailingSlash;
   /**
    * ISR (Incremental Static Regeneration) caching configuration.
    * `false` disables ISR; otherwise holds the resolved ISR options.
    */
   isr: false | ISROptions;
+  /**
+   * In-memory cache for small static files. `false` disables it; otherwise
+   * holds the resolved cache options.
+   */
+  staticMemoryCache: false | StaticMemoryCacheOptions;
+  /**
+   * Register static files as native `Bun.serve` routes. `false` disables it;
+   * otherwise holds the resolved options.
+   */
+  nativeStaticRoutes: false | NativeStaticRoutesOptions;
+  /**
+   * Access gate for source maps. `false` serves them publicly (or they were
+   * excluded at build time); otherwise holds the resolved gate options.
+   */
+  sourceMapGate: false | SourceMapGateOptions;
+  /**
+   * TLS certificates for serving HTTPS. `false` serves plain HTTP unless
+   * `TLS_CERT`/`TLS_KEY` are set at runtime.
+   */
+  tls: false | TLSCertificateOptions[];
+  /**
+   * Port of a plain-HTTP listener that redirects to HTTPS. `false` disables
+   * it unless `HTTP_REDIRECT_PORT` is set at runtime.
+   */
+  httpRedirectPort: false | number;
+  /**
+   * Unix domain socket to listen on instead of a TCP port. `false` listens
+   * on `port` unless `SOCKET_PATH` is set at runtime.
+   */
+  socket: false | UnixSocketOptions;
+  /**
+   * Number of worker processes sharing the port, or `"auto"` for one per
+   * CPU. `1` runs a single process. `WORKERS` overrides it at runtime.
+   */
+  workers: number | "auto";
+  /**
+   * Milliseconds to wait for in-flight requests during graceful shutdown.
+   * `SHUTDOWN_TIMEOUT` overrides it at runtime.
+   */
+  shutdownTimeout: number;
+  /**
+   * Milliseconds to keep accepting connections, with the readiness probe
+   * failing, before draining. `DRAIN_DELAY` overrides it at runtime.
+   */
+  drainDelay: number;
+  /** Liveness/readiness probe paths. `false` disables the built-in probes. */
+  health: false | HealthOptions;
+  /** Access log configuration. `false` disables access logging. */
+  accessLog: false | AccessLogOptions;
+  /** Prometheus metrics endpoint. `false` disables it. */
+  metrics: false | MetricsOptions;
+  /** OpenTelemetry tracing. `false` disables it. */
+  tracing: false | TracingOptions;
+  /**
+   * Proxies whose `Forwarded` / `X-Forwarded-*` headers are trusted: a hop
+   * count, or addresses and CIDRs. `TRUSTED_PROXIES` overrides it at runtime.
+   */
+  trustedProxies: false | number | string[];
 }
 
 /**
@@ -50,26 +118,289 @@ export interface ISROptions {
   preFillMemoryCache: boolean;
 }
 
+/** Astro's `trailingSlash` config values. */
+export type TrailingSlash = "always" | "never" | "ignore";
+
+/** Astro's `build.format` config values. */
+export type BuildFormat = "file" | "directory" | "preserve";
+
+/** Content codings the build can precompress static files with. */
+export type ContentEncoding = "br" | "zstd" | "gzip";
+
+/** A precompressed sibling of a static file (e.g. `main.js.br`). */
+export interface EncodedVariant {
+  /** Headers that replace the base entry's (ETag, Content-Length, Content-Encoding). */
+  headers: Record<string, string>;
+  /** Relative file path within client dir. */
+  filePath: string;
+}
+
+/** Resolved in-memory static file cache configuration. */
+export interface StaticMemoryCacheOptions {
+  maxByteSize: number;
+  maxFileSize: number;
+  preload: boolean;
+}
+
+/** Resolved access log configuration. */
+export interface AccessLogOptions {
+  format: "combined" | "json";
+  /** `"stdout"` or a file path to append to. */
+  destination: string;
+  /** Fraction of requests to log, from `0` to `1`. */
+  sampleRate: number;
+  /** Path patterns (see `compileGlob`) that are never logged. */
+  exclude: string[];
+}
+
+/** Resolved health probe configuration. */
+export interface HealthOptions {
+  /** Exact request path answered by the liveness probe (e.g. `/_health`). */
+  livenessPath: string;
+  /** Exact request path answered by the readiness probe (e.g. `/_ready`). */
+  readinessPath: string;
+}
+
+/** Resolved metrics endpoint configuration. */
+export interface MetricsOptions {
+  /** Exact request path of the metrics endpoint (e.g. `/metrics`). */
+  path: string;
+  /** Separate port to serve metrics on, instead of the main server. */
+  port?: number;
+  /** Bearer token required to scrape. */
+  token?: string;
+}
+
+/** Resolved tracing configuration. */
+export interface TracingOptions {
+  /** OTLP/HTTP traces URL (e.g. `http://localhost:4318/v1/traces`). */
+  endpoint: string;
+  /** Extra headers sent with every export request. */
+  headers: Record<string, string>;
+  /** `service.name` resource attribute. */
+  serviceName: string;
+  /** Fraction of new root traces to sample, from `0` to `1`. */
+  sampleRate: number;
+}
+
+/**
+ * Trace context of the active span, exposed to pages and endpoints as
+ * `Astro.locals.trace` when tracing is enabled.
+ */
+export interface TraceContext {
+  traceId: string;
+  spanId: string;
+  /** Whether the trace is sampled (exported). */
+  sampled: boolean;
+  /** W3C `traceparent` value for propagating the trace to outgoing requests. */
+  traceparent: string;
+}
+
+/** `ws.data` of WebSockets accepted through `Astro.locals.upgradeWebSocket`. */
+export interface WebSocketData<T = unknown> {
+  /** Handlers of the endpoint that accepted the connection. */
+  handlers: WebSocketHandlers<T>;
+  /** The `data` option passed to `upgradeWebSocket()`. */
+  data: T;
+}
+
+/** A WebSocket accepted through `Astro.locals.upgradeWebSocket`. */
+export type AdapterWebSocket<T = unknown> = ServerWebSocket<WebSocketData<T>>;
+
+/** Per-endpoint WebSocket callbacks, mirroring Bun's `websocket` handlers. */
+export interface WebSocketHandlers<T = unknown> {
+  open?(ws: AdapterWebSocket<T>): void | Promise<void>;
+  message?(
+    ws: AdapterWebSocket<T>,
+    message: string | Buffer
+  ): void | Promise<void>;
+  close?(
+    ws: AdapterWebSocket<T>,
+    code: number,
+    reason: string
+  ): void | Promise<void>;
+  /** The socket is ready to receive more data after backpressure. */
+  drain?(ws: AdapterWebSocket<T>): void | Promise<void>;
+}
+
+/** Options for `Astro.locals.upgradeWebSocket`. */
+export interface UpgradeWebSocketOptions<T> {
+  /** Per-connection value, available as `ws.data.data`. */
+  data?: T;
+  /** Extra headers for the `101 Switching Protocols` response. */
+  headers?: HeadersInit;
+}
+
+/**
+ * WebSocket helpers added to `Astro.locals` for requests served by the
+ * adapter's server (not in `astro dev` or during prerendering).
+ */
+export interface WebSocketLocals {
+  /**
+   * Upgrade the current request to a WebSocket handled by `handlers`.
+   * Return the result from the endpoint: on success it is discarded and the
+   * connection switches protocols; otherwise it is a `426 Upgrade Required`
+   * response.
+   */
+  upgradeWebSocket<T = undefined>(
+    handlers: WebSocketHandlers<T>,
+    options?: UpgradeWebSocketOptions<T>
+  ): Response;
+  /**
+   * Send a message to every WebSocket subscribed to `topic` (see
+   * `ws.subscribe()`). Returns the bytes sent, `0` if dropped, or `-1` under
+   * backpressure.
+   */
+  publish(
+    topic: string,
+    data: string | BufferSource,
+    compress?: boolean
+  ): number;
+}
+
+/**
+ * Bun runtime accessors for the current request, added to `Astro.locals` as
+ * `runtime` for requests served by the adapter's server.
+ */
+export interface RuntimeLocals {
+  /** The server created by `Bun.serve`. */
+  server: Server<WebSocketData>;
+  /**
+   * Address of the connecting peer. Behind trusted proxies this is the
+   * proxy; `Astro.clientAddress` has the resolved client address.
+   */
+  requestIP(): SocketAddress | null;
+  /** Set this request's idle timeout in seconds (`0` disables it). */
+  timeout(seconds: number): void;
+}
+
+/**
+ * Everything the adapter adds to `Astro.locals`. Use it to type `App.Locals`;
+ * every field is missing in `astro dev` and while prerendering.
+ */
+export interface AdapterLocals extends WebSocketLocals {
+  runtime: RuntimeLocals;
+  /** Set when tracing is enabled. */
+  trace?: TraceContext;
+}
+
+/** Resolved Unix domain socket configuration. */
+export interface UnixSocketOptions {
+  /** Filesystem path of the socket. */
+  path: string;
+  /** File mode applied after binding (e.g. `0o660`). */
+  permissions?: number;
+}
+
+/** A TLS certificate, with file paths resolved against the working directory at runtime. */
+export interface TLSCertificateOptions {
+  /** Path to the PEM certificate (chain). */
+  cert: string;
+  /** Path to the PEM private key. */
+  key: string;
+  /** Path to a PEM CA bundle. */
+  ca?: string;
+  /** Passphrase for an encrypted key. */
+  passphrase?: string;
+  /** Hostname this certificate is selected for via SNI. */
+  serverName?: string;
+}
+
+/** Resolved source map gate configuration. */
+export interface SourceMapGateOptions {
+  /** Request header that must carry the token (lowercase). */
+  header: string;
+  /** Expected token. `SOURCEMAP_TOKEN` overrides it at runtime. */
+  token?: string;
+}
+
+/** Resolved native static route configuration. */
+export interface NativeStaticRoutesOptions {
+  maxFileSize: number;
+}
+
 /** Pre-computed response headers for a static file. */
 export interface ManifestEntry {
   headers: Record<string, string>;
   /** Relative file path within client dir. */
   filePath: string;
+  /** Precompressed variants keyed by content coding. Omitted when none were emitted. */
+  encodings?: Partial<Record<ContentEncoding, EncodedVariant>>;
 }
 
 export type StaticManifest = Record<string, ManifestEntry>;
 
+/** SRI digests (`sha384-...`) keyed by file path relative to the client dir. */
+export type IntegrityManifest = Record<string, string>;
+
+/** A redirect from Astro's `redirects` config, serialized at build time. */
+export interface RedirectRule {
+  /** Route pattern, e.g. `/old` or `/blog/[slug]`. */
+  source: string;
+  /**
+   * Target URL. String-form rules may reference the source's params (e.g.
+   * `/posts/[slug]`).
+   */
+  destination: string;
+  /**
+   * Explicit status code, set for object-form rules only. Defaults to 301
+   * (GET) / 308 (other methods).
+   */
+  status?: number;
+}
+
 /** Minimal cache interface exposed for on-demand cache expiration. */
 export interface ISRCache {
   expire(key: string): Promise<void>;
   expireAll(): Promise<void>;
 }
 
+/** Persistent ISR cache sizes and lifetime counters. */
+export interface ISRCacheStats {
+  /** Bytes held in memory. */
+  currentBytes: number;
+  /** In-memory byte budget. */
+  maxByteSize: number;
+  /** Entries held in memory. */
+  memoryEntries: number;
+  /** Entries known to the cache, including those only on disk. */
+  diskEntries: number;
+  /** Entries dropped from memory to stay within budget. */
+  evictions: number;
+  /** Entries read back from disk into memory. */
+  diskLoads: number;
+  /** Disk writes not yet finished. */
+  pendingWrites: number;
+}
+
+/** ISR cache stats plus the handler's render counters. */
+export interface ISRStats extends ISRCacheStats {
+  /** Background revalidations started for stale entries. */
+  revalidations: number;
+  /** Requests that waited on another request's render of the same key. */
+  coalescedWaits: number;
+  /** Renders currently in flight for cache misses. */
+  inflightRenders: number;
+}
+
 /** An ISR request handler that takes a Request and cache key, returning a Response. */
 export interface ISRHandler {
-  (request: Request, cacheKey: string): Promise<Response>;
+  /**
+   * Serve a request from the cache. Misses and revalidations are rendered
+   * with `render` when given (e.g. to pass per-request locals), or else the
+   * handler's `origin`.
+   */
+  (
+    request: Request,
+    cacheKey: string,
+    render?: (request: Request) => Promise<Response>
+  ): Promise<Response>;
   /** Drain pending writes and flush cache state to disk. */
   shutdown: () => Promise<void>;
+  /** Whether the persistent cache has finished restoring from disk. */
+  isReady: () => boolean;
+  /** Cache sizes and render counters, for metrics. */
+  stats: () => ISRStats;
   /** Cache instance for on-demand expiration via `unstable_expirePath` / `unstable_expireAll`. */
   cache: ISRCache;
 }
@@ -1,10 +1,37 @@
 declare module "virtual:@wyattjoh/astro-bun-adapter/config" {
-  import type { ISROptions } from "./types.ts";
+  import type {
+    AccessLogOptions,
+    HealthOptions,
+    ISROptions,
+    MetricsOptions,
+    NativeStaticRoutesOptions,
+    SourceMapGateOptions,
+    StaticMemoryCacheOptions,
+    TLSCertificateOptions,
+    TracingOptions,
+    TrailingSlash,
+    UnixSocketOptions,
+  } from "./types.ts";
 
   export const host: string | boolean;
   export const port: number;
   export const adapterDir: string;
   export const staticCacheControl: string;
   export const imageEndpointRoute: string;
+  export const trailingSlash: TrailingSlash;
   export const isr: false | ISROptions;
+  export const staticMemoryCache: false | StaticMemoryCacheOptions;
+  export const nativeStaticRoutes: false | NativeStaticRoutesOptions;
+  export const sourceMapGate: false | SourceMapGateOptions;
+  export const tls: false | TLSCertificateOptions[];
+  export const httpRedirectPort: false | number;
+  export const socket: false | UnixSocketOptions;
+  export const workers: number | "auto";
+  export const shutdownTimeout: number;
+  export const drainDelay: number;
+  export const health: false | HealthOptions;
+  export const accessLog: false | AccessLogOptions;
+  export const metrics: false | MetricsOptions;
+  export const tracing: false | TracingOptions;
+  export const trustedProxies: false | number | string[];
 }
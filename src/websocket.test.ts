@@ -0,0 +1,74 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import type { WebSocketData, WebSocketHandlers } from "./types.ts";
+import { createWebSocketLocals, websocketHandler } from "./websocket.ts";
+
+describe("createWebSocketLocals", () => {
+  const closed = Promise.withResolvers<[number, string]>();
+  const chat: WebSocketHandlers<{ name: string }> = {
+    open(ws) {
+      ws.subscribe("chat");
+      ws.send(`welcome ${ws.data.data.name}`);
+    },
+    message(ws, message) {
+      ws.send(`echo ${message}`);
+    },
+    close(_ws, code, reason) {
+      closed.resolve([code, reason]);
+    },
+  };
+
+  let upgrades = 0;
+  const server = Bun.serve<WebSocketData>({
+    port: 0,
+    websocket: websocketHandler,
+    fetch(request, server) {
+      const locals = createWebSocketLocals(server, request, () => upgrades++);
+      const url = new URL(request.url);
+      if (url.pathname === "/publish") {
+        locals.publish("chat", "broadcast");
+        return new Response("ok");
+      }
+      const response = locals.upgradeWebSocket(chat, {
+        data: { name: "ada" },
+        headers: { "x-chat": "1" },
+      });
+      return response.status === 426 ? response : undefined;
+    },
+  });
+  afterAll(() => server.stop(true));
+
+  test("answers plain requests with 426", async () => {
+    const res = await fetch(`http://localhost:${server.port}/chat`);
+    expect(res.status).toBe(426);
+    expect(res.headers.get("upgrade")).toBe("websocket");
+  });
+
+  test("dispatches to the endpoint's handlers and publishes", async () => {
+    const ws = new WebSocket(`ws://localhost:${server.port}/chat`);
+    const messages: string[] = [];
+    let expected = 0;
+    let arrived = () => {};
+    ws.addEventListener("message", (event) => {
+      messages.push(String(event.data));
+      if (messages.length === expected) arrived();
+    });
+    const received = (count: number) =>
+      new Promise<void>((resolve) => {
+        expected = count;
+        arrived = resolve;
+      });
+
+    await received(1);
+    expect(messages).toEqual(["welcome ada"]);
+    expect(upgrades).toBe(1);
+
+    const echoed = received(3);
+    ws.send("hi");
+    await fetch(`http://localhost:${server.port}/publish`);
+    await echoed;
+    expect(messages.sort()).toEqual(["broadcast", "echo hi", "welcome ada"]);
+
+    ws.close(1000, "bye");
+    expect(await closed.promise).toEqual([1000, "bye"]);
+  });
+});
@@ -0,0 +1,54 @@
+import type { Server, WebSocketHandler } from "bun";
+import type { WebSocketData, WebSocketLocals } from "./types.ts";
+
+/**
+ * Bun `websocket` handlers that dispatch each connection to the handlers of
+ * the endpoint that upgraded it.
+ */
+export const websocketHandler: WebSocketHandler<WebSocketData> = {
+  open(ws) {
+    return ws.data.handlers.open?.(ws);
+  },
+  message(ws, message) {
+    return ws.data.handlers.message?.(ws, message);
+  },
+  close(ws, code, reason) {
+    return ws.data.handlers.close?.(ws, code, reason);
+  },
+  drain(ws) {
+    return ws.data.handlers.drain?.(ws);
+  },
+};
+
+/**
+ * Build the WebSocket locals for one request. `incoming` must be the request
+ * object Bun passed to `fetch` -- `server.upgrade()` rejects copies, such as
+ * requests rewritten for trusted proxies. `onUpgrade` runs once the
+ * connection has been upgraded.
+ */
+export function createWebSocketLocals(
+  server: Server<WebSocketData>,
+  incoming: Request,
+  onUpgrade: () => void
+): WebSocketLocals {
+  return {
+    upgradeWebSocket(handlers, options = {}) {
+      const upgraded = server.upgrade(incoming, {
+        data: { handlers, data: options.data } as WebSocketData,
+        headers: options.headers,
+      });
+      if (!upgraded) {
+        return new Response("Upgrade Required", {
+          status: 426,
+          headers: { Connection: "Upgrade", Upgrade: "websocket" },
+        });
+      }
+      onUpgrade();
+      // Never sent: `fetch` answers upgraded requests with nothing.
+      return new Response(null);
+    },
+    publish(topic, data, compress) {
+      return server.publish(topic, data, compress);
+    },
+  };
+}